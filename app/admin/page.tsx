@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import AdminAuditLog from "../components/AdminAuditLog";
+import AdminReportQueue from "../components/AdminReportQueue";
+import AdminUserList from "../components/AdminUserList";
+import AdminVideoList from "../components/AdminVideoList";
+
+type AdminTab = "reports" | "videos" | "users" | "audit";
+
+const TAB_LABELS: Record<AdminTab, string> = {
+  reports: "Reports",
+  videos: "Videos",
+  users: "Users",
+  audit: "Audit log",
+};
+
+export default function AdminDashboardPage() {
+  const { data: session } = useSession();
+  const [tab, setTab] = useState<AdminTab>("reports");
+  const isAdmin = session?.user.role === "admin";
+
+  // account management is for admins only, moderators get everything else
+  const tabs: AdminTab[] = isAdmin
+    ? ["reports", "videos", "users", "audit"]
+    : ["reports", "videos", "audit"];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Admin Dashboard</h1>
+
+      <div role="tablist" className="tabs tabs-boxed mb-6 w-fit">
+        {tabs.map((value) => (
+          <button
+            key={value}
+            role="tab"
+            className={`tab ${tab === value ? "tab-active" : ""}`}
+            onClick={() => setTab(value)}
+          >
+            {TAB_LABELS[value]}
+          </button>
+        ))}
+      </div>
+
+      {tab === "reports" && <AdminReportQueue />}
+      {tab === "videos" && <AdminVideoList />}
+      {tab === "users" && isAdmin && <AdminUserList />}
+      {tab === "audit" && <AdminAuditLog />}
+    </div>
+  );
+}
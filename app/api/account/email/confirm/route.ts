@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/db";
+import { sendEmailChangedNotice } from "@/lib/emails";
+import { consumeAuthToken } from "@/lib/tokens";
+import User from "@/models/User";
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token || typeof token !== "string") {
+      return NextResponse.json(
+        { error: "Confirmation token is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+    const userId = await consumeAuthToken(token, "email-change");
+    const user = userId && (await User.findById(userId));
+
+    if (!user?.pendingEmail) {
+      return NextResponse.json(
+        { error: "This confirmation link is invalid or has expired" },
+        { status: 400 }
+      );
+    }
+
+    const previousEmail = user.email;
+    user.email = user.pendingEmail;
+    user.pendingEmail = undefined;
+    user.isVerified = true; // the link was opened from the new inbox
+    try {
+      await user.save();
+    } catch (error) {
+      // someone registered with this address since the change was requested
+      if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR) {
+        return NextResponse.json(
+          { error: "This email is already in use" },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    try {
+      await sendEmailChangedNotice(previousEmail, user.email);
+    } catch (error) {
+      console.error("Error sending email change notice:", error);
+    }
+
+    return NextResponse.json({ message: `Your email is now ${user.email}` });
+  } catch (error) {
+    console.error("Email change confirm error:", error);
+    return NextResponse.json(
+      { error: "Failed to confirm email change" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/account/email/confirm
+Body: { token } taken from the link sent to the new address (the /confirm-email page posts it here).
+Public like /api/auth/verify-email: the link may be opened on a device where the user isn't logged in.
+Swaps User.email for pendingEmail, and tells the previous address about it, in case the change wasn't theirs.
+A link is only honoured while the change is still pending, cancelling it (DELETE /api/account/email) makes it useless.
+*/
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkCurrentPassword, getCurrentUser } from "@/lib/reauth";
+import { normalizeEmail, validateEmail } from "@/lib/validation";
+import { sendEmailChangeLink, verificationCooldownRemaining } from "@/lib/verification";
+import User from "@/models/User";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await getCurrentUser();
+    if (authError) return authError;
+
+    const { password, email } = await request.json();
+
+    const emailError = validateEmail(email);
+    if (emailError) {
+      return NextResponse.json(
+        { error: emailError, fieldErrors: { email: emailError } },
+        { status: 400 }
+      );
+    }
+    const newEmail = normalizeEmail(String(email));
+
+    const { error } = await checkCurrentPassword(user, password);
+    if (error) return error;
+
+    if (newEmail === user.email) {
+      const message = "This is already your email";
+      return NextResponse.json(
+        { error: message, fieldErrors: { email: message } },
+        { status: 400 }
+      );
+    }
+
+    if (await User.exists({ email: newEmail })) {
+      const message = "This email is already in use";
+      return NextResponse.json(
+        { error: message, fieldErrors: { email: message } },
+        { status: 409 }
+      );
+    }
+
+    const remaining = await verificationCooldownRemaining(user, "email-change");
+    if (remaining > 0) {
+      const retryAfter = Math.ceil(remaining / 1000);
+      return NextResponse.json(
+        { error: `Please wait ${retryAfter} seconds before requesting another email` },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    user.pendingEmail = newEmail;
+    await user.save();
+    await sendEmailChangeLink(user, newEmail, request.nextUrl.origin);
+
+    return NextResponse.json({
+      message: `Check ${newEmail} for a link to confirm the change`,
+      pendingEmail: newEmail,
+    });
+  } catch (error) {
+    console.error("Error changing email:", error);
+    return NextResponse.json(
+      { error: "Failed to change email" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const { user, error } = await getCurrentUser();
+    if (error) return error;
+
+    user.pendingEmail = undefined; // the link already sent stops working too, see the confirm route
+    await user.save();
+
+    return NextResponse.json({ message: "Email change cancelled" });
+  } catch (error) {
+    console.error("Error cancelling email change:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel email change" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/account/email
+Body: { password, email }
+Starts an email change: the new address is kept in User.pendingEmail and gets a confirmation link (/confirm-email?token=...).
+The account keeps its current email, for logging in and for password resets, until the link is clicked, so a typo can't lock anyone out.
+Asking again replaces the pending address and invalidates the previous link; one email per VERIFICATION_RESEND_COOLDOWN_MS (lib/verification.ts).
+
+DELETE /api/account/email
+Drops the pending change.
+*/
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkCurrentPassword, getCurrentUser } from "@/lib/reauth";
+import { validatePassword } from "@/lib/validation";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await getCurrentUser();
+    if (authError) return authError;
+
+    const { password, newPassword } = await request.json();
+
+    // checked first, a weak new password shouldn't count as a failed attempt of the current one
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError, fieldErrors: { newPassword: passwordError } },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await checkCurrentPassword(user, password);
+    if (error) return error;
+
+    user.password = newPassword; // hashed by the pre("save") hook in models/User.ts
+    user.passwordChangedAt = new Date(); // logs out every existing session, this one included (see lib/auth.ts)
+    await user.save();
+
+    return NextResponse.json({
+      message: "Password changed. Please log in with your new password.",
+    });
+  } catch (error) {
+    console.error("Error changing password:", error);
+    return NextResponse.json(
+      { error: "Failed to change password" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/account/password
+Body: { password, newPassword }
+password is the current one; wrong guesses count towards the login lockout (lib/reauth.ts).
+Every session ends, on this device too: someone who changes their password because it leaked wants other devices logged out.
+*/
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteAccount } from "@/lib/account-deletion";
+import { checkCurrentPassword, getCurrentUser } from "@/lib/reauth";
+
+export async function GET() {
+  try {
+    const { user, error } = await getCurrentUser();
+    if (error) return error;
+
+    return NextResponse.json({
+      email: user.email,
+      pendingEmail: user.pendingEmail ?? null,
+      hasPassword: !!user.password,
+    });
+  } catch (error) {
+    console.error("Error fetching account:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch account" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error: authError } = await getCurrentUser();
+    if (authError) return authError;
+
+    const { password, confirmation } = await request.json();
+
+    if (user.password) {
+      const { error } = await checkCurrentPassword(user, password);
+      if (error) return error;
+    } else if (
+      typeof confirmation !== "string" ||
+      confirmation.trim().toLowerCase() !== user.email.toLowerCase()
+    ) {
+      // OAuth-only users have no password to re-enter, typing their email proves it isn't a misclick
+      const message = "Type your email to confirm";
+      return NextResponse.json(
+        { error: message, fieldErrors: { confirmation: message } },
+        { status: 400 }
+      );
+    }
+
+    const removed = await deleteAccount(user._id);
+    return NextResponse.json({ message: "Your account has been deleted", removed });
+  } catch (error) {
+    console.error("Error deleting account:", error);
+    return NextResponse.json(
+      { error: "Failed to delete account" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/account
+The current user's email settings for the settings page (app/settings/page.tsx).
+Response: { email, pendingEmail, hasPassword }
+
+DELETE /api/account
+Body: { password } or, for users who only sign in with GitHub/Google, { confirmation } holding their email.
+Deletes the user with their videos (and stored files), likes, comments, follows, reports and linked sign-in accounts, see lib/account-deletion.ts.
+Response: { message, removed: { videos, files, likes, comments, follows, reports } }, the counts of what was deleted.
+The session cookie isn't valid anymore afterwards (the jwt callback in lib/auth.ts throws for a missing user), the client signs out.
+*/
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { requireModerator } from "@/lib/admin";
+import { afterCursor, decodeCursor, parseLimit, toPage } from "@/lib/pagination";
+import ModerationLog, { IModerationLog } from "@/models/ModerationLog";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requireModerator();
+    if (error) return error;
+
+    const { searchParams } = request.nextUrl;
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const position = cursor ? decodeCursor(cursor) : null;
+
+    if (cursor && !position) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    const entries = await ModerationLog.find(position ? afterCursor(position) : {})
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate("actor", "username email")
+      .lean<(IModerationLog & { createdAt: Date; _id: mongoose.Types.ObjectId })[]>();
+
+    const { items, nextCursor } = toPage(entries, limit);
+    return NextResponse.json({ entries: items, nextCursor });
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/admin/audit?cursor=&limit=
+Moderators and admins. The audit trail (models/ModerationLog.ts), newest first.
+Response: { entries: [{ _id, actor: { username, email } | null, action, targetType, target, details, createdAt }], nextCursor }
+actor is null for automatic actions (auto-hide after too many reports).
+*/
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { requireModerator } from "@/lib/admin";
+import { hideTarget, logModerationAction, unhideReportedTarget } from "@/lib/moderation";
+import Report, { REPORT_TARGET_TYPES, ReportTargetType } from "@/models/Report";
+
+type ReportActionBody = {
+  targetType: ReportTargetType;
+  action: "resolve" | "dismiss";
+};
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireModerator();
+    if (error) return error;
+
+    const { id } = await params; // the reported video or comment, not a single report
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid target ID" }, { status: 400 });
+    }
+
+    const { targetType, action }: ReportActionBody = await request.json();
+
+    if (!REPORT_TARGET_TYPES.includes(targetType)) {
+      return NextResponse.json({ error: "Invalid target type" }, { status: 400 });
+    }
+    if (action !== "resolve" && action !== "dismiss") {
+      return NextResponse.json(
+        { error: "Action must be resolve or dismiss" },
+        { status: 400 }
+      );
+    }
+
+    const { modifiedCount } = await Report.updateMany(
+      { targetType, target: id, status: "open" },
+      {
+        $set: {
+          status: action === "resolve" ? "resolved" : "dismissed",
+          handledBy: session.user.id,
+          handledAt: new Date(),
+        },
+      }
+    );
+
+    if (modifiedCount === 0) {
+      return NextResponse.json(
+        { error: "No open reports for this item" },
+        { status: 404 }
+      );
+    }
+
+    // resolve: the reports were right, keep the item hidden. dismiss: nothing wrong, bring it back unless a moderator hid it
+    const visible =
+      action === "resolve"
+        ? ((await hideTarget(targetType, id)) ? false : null)
+        : await unhideReportedTarget(targetType, id);
+
+    await logModerationAction({
+      actor: session.user.id,
+      action: action === "resolve" ? "reports.resolve" : "reports.dismiss",
+      targetType,
+      target: id,
+      details: `${modifiedCount} report${modifiedCount === 1 ? "" : "s"}${
+        visible === null ? ", item was deleted" : visible ? ", item visible" : ", item hidden"
+      }`,
+    });
+
+    return NextResponse.json({ handled: modifiedCount });
+  } catch (error) {
+    console.error("Error handling reports:", error);
+    return NextResponse.json(
+      { error: "Failed to update reports" },
+      { status: 500 }
+    );
+  }
+}
+/*
+PATCH /api/admin/reports/:id (id of the reported video or comment)
+Moderators and admins. Body: { targetType: "video" | "comment", action: "resolve" | "dismiss" }
+Handles every open report of the item at once:
+resolve: reports marked "resolved", the item is hidden (it may already be, after crossing the auto-hide threshold).
+dismiss: reports marked "dismissed", the item is made visible again if the reports hid it (auto-hide); an item a moderator hid stays hidden.
+Either way the moderator is recorded on the reports (handledBy) and in the audit log.
+Response: { handled: <number of reports> }
+404: The item has no open reports (e.g. another moderator handled it first).
+*/
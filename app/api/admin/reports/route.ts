@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { requireModerator } from "@/lib/admin";
+import {
+  decodeOffsetCursor,
+  encodeOffsetCursor,
+  parseLimit,
+} from "@/lib/pagination";
+import Comment from "@/models/Comment";
+import Report, {
+  REPORT_STATUSES,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+} from "@/models/Report";
+import Video from "@/models/Video";
+
+const MAX_DETAILS_PER_ITEM = 5;
+
+type ReportGroup = {
+  _id: { targetType: ReportTargetType; target: mongoose.Types.ObjectId };
+  reportCount: number;
+  reasons: ReportReason[];
+  details: (string | null)[];
+  lastReportedAt: Date;
+};
+
+type VideoPreview = { _id: mongoose.Types.ObjectId; title: string; isHidden?: boolean };
+type CommentPreview = {
+  _id: mongoose.Types.ObjectId;
+  body: string;
+  video: mongoose.Types.ObjectId;
+  isHidden?: boolean;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requireModerator();
+    if (error) return error;
+
+    const { searchParams } = request.nextUrl;
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const offset = cursor ? decodeOffsetCursor(cursor) : 0;
+    const status = (searchParams.get("status") ?? "open") as ReportStatus;
+
+    if (offset === null) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+    if (!REPORT_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    // one row per reported item, most reported first
+    const groups = await Report.aggregate<ReportGroup>([
+      { $match: { status } },
+      {
+        $group: {
+          _id: { targetType: "$targetType", target: "$target" },
+          reportCount: { $sum: 1 },
+          reasons: { $push: "$reason" },
+          details: { $push: "$details" },
+          lastReportedAt: { $max: "$createdAt" },
+        },
+      },
+      { $sort: { reportCount: -1, lastReportedAt: -1, _id: 1 } },
+      { $skip: offset },
+      { $limit: limit + 1 },
+    ]);
+
+    const hasMore = groups.length > limit;
+    const page = groups.slice(0, limit);
+
+    // previews of the reported videos and comments, two queries for the whole page
+    const idsOf = (type: ReportTargetType) =>
+      page.filter((group) => group._id.targetType === type).map((group) => group._id.target);
+    const [videos, comments] = await Promise.all([
+      Video.find({ _id: { $in: idsOf("video") } })
+        .select("title isHidden")
+        .lean<VideoPreview[]>(),
+      Comment.find({ _id: { $in: idsOf("comment") } })
+        .select("body video isHidden")
+        .lean<CommentPreview[]>(),
+    ]);
+
+    const items = page.map((group) => {
+      const { targetType, target } = group._id;
+      const reasons: Partial<Record<ReportReason, number>> = {};
+      for (const reason of group.reasons) {
+        reasons[reason] = (reasons[reason] ?? 0) + 1;
+      }
+
+      const video = targetType === "video" ? videos.find((v) => v._id.equals(target)) : undefined;
+      const comment = targetType === "comment" ? comments.find((c) => c._id.equals(target)) : undefined;
+
+      return {
+        targetType,
+        targetId: target,
+        reportCount: group.reportCount,
+        reasons,
+        details: group.details.filter(Boolean).slice(0, MAX_DETAILS_PER_ITEM),
+        lastReportedAt: group.lastReportedAt,
+        // null when the item was deleted after being reported
+        target: video
+          ? { title: video.title, videoId: video._id, isHidden: video.isHidden ?? false }
+          : comment
+            ? { body: comment.body, videoId: comment.video, isHidden: comment.isHidden ?? false }
+            : null,
+      };
+    });
+
+    return NextResponse.json({
+      items,
+      nextCursor: hasMore ? encodeOffsetCursor(offset + limit) : null,
+    });
+  } catch (error) {
+    console.error("Error fetching report queue:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reports" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/admin/reports?status=open&cursor=&limit=
+Moderators and admins. The moderation queue: reports grouped per reported item, most reported first.
+status: open (default), resolved or dismissed.
+Response: { items: [{ targetType, targetId, reportCount, reasons: { spam: 3, ... }, details: [...], lastReportedAt, target }], nextCursor }
+target: { title, videoId, isHidden } for a video, { body, videoId, isHidden } for a comment (videoId links to the watch page), null if it was deleted.
+The cursor is an offset cursor (lib/pagination.ts), since the order is by report count rather than (createdAt, _id).
+*/
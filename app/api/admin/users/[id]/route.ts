@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { requireAdmin } from "@/lib/admin";
+import { logModerationAction } from "@/lib/moderation";
+import { USER_ROLES, UserRole } from "@/lib/constants";
+import User from "@/models/User";
+
+type AdminUserUpdateBody = {
+  suspended?: boolean;
+  role?: UserRole;
+};
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireAdmin();
+    if (error) return error;
+
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+
+    // an admin locking themselves out (or demoting the last admin by accident) is never what they meant
+    if (id === session.user.id) {
+      return NextResponse.json(
+        { error: "You can't change your own account here" },
+        { status: 400 }
+      );
+    }
+
+    const { suspended, role }: AdminUserUpdateBody = await request.json();
+
+    if (suspended !== undefined && typeof suspended !== "boolean") {
+      return NextResponse.json({ error: "suspended must be true or false" }, { status: 400 });
+    }
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+    if (suspended === undefined && role === undefined) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const update: Record<string, unknown> = {};
+    if (suspended !== undefined) update.suspendedAt = suspended ? new Date() : null;
+    if (role !== undefined) update.role = role;
+
+    // the previous version is returned, so the audit log can say what the role was before
+    const previous = await User.findByIdAndUpdate(id, { $set: update })
+      .select("role")
+      .lean<{ role?: UserRole }>();
+
+    if (!previous) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (suspended !== undefined) {
+      await logModerationAction({
+        actor: session.user.id,
+        action: suspended ? "user.suspend" : "user.unsuspend",
+        targetType: "user",
+        target: id,
+      });
+    }
+    if (role !== undefined && role !== (previous.role ?? "user")) {
+      await logModerationAction({
+        actor: session.user.id,
+        action: "user.role",
+        targetType: "user",
+        target: id,
+        details: `role: ${previous.role ?? "user"} -> ${role}`,
+      });
+    }
+
+    const user = await User.findById(id)
+      .select("email username role isVerified suspendedAt createdAt")
+      .lean();
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
+/*
+PATCH /api/admin/users/:id
+Admin only. Body: { suspended?: boolean, role?: "user" | "moderator" | "admin" }
+suspended: true sets suspendedAt, which blocks logging in and ends the user's open sessions on their next request (see the jwt callback in lib/auth.ts). false lifts the suspension.
+role: promotes or demotes the account; also takes effect on the user's next request.
+Admins can't change their own account, so there is always someone left to undo a mistake.
+Every change is recorded in the audit log (lib/moderation.ts).
+Response: the updated user (without the password).
+*/
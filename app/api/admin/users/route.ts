@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { requireAdmin } from "@/lib/admin";
+import { afterCursor, decodeCursor, parseLimit, toPage } from "@/lib/pagination";
+import User, { IUser } from "@/models/User";
+
+// escapes regex characters so the search box matches literally
+function escapeRegex(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requireAdmin();
+    if (error) return error;
+
+    const { searchParams } = request.nextUrl;
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const position = cursor ? decodeCursor(cursor) : null;
+    const query = searchParams.get("q")?.trim();
+
+    if (cursor && !position) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    const search = query
+      ? {
+          $or: [
+            { email: { $regex: `^${escapeRegex(query)}`, $options: "i" } },
+            { username: { $regex: `^${escapeRegex(query.toLowerCase())}` } },
+          ],
+        }
+      : {};
+
+    // $and because both the search and the cursor use $or
+    const users = await User.find(position ? { $and: [search, afterCursor(position)] } : search)
+      .select("email username role isVerified suspendedAt createdAt") // never the password hash
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean<(IUser & { createdAt: Date; _id: mongoose.Types.ObjectId })[]>();
+
+    const { items, nextCursor } = toPage(users, limit);
+    return NextResponse.json({ users: items, nextCursor });
+  } catch (error) {
+    console.error("Error fetching users for admin:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch users" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/admin/users?q=&cursor=&limit=
+Admin only (see lib/admin.ts). Every account, newest first, paginated like the feed (lib/pagination.ts).
+q: optional, matches the start of the email or the username, case insensitive.
+Response: { users: [{ _id, email, username, role, isVerified, suspendedAt, createdAt }], nextCursor }
+*/
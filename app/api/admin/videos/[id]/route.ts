@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { requireModerator } from "@/lib/admin";
+import { logModerationAction } from "@/lib/moderation";
+import Video from "@/models/Video";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { session, error } = await requireModerator();
+    if (error) return error;
+
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid video ID" }, { status: 400 });
+    }
+
+    const { hidden } = await request.json();
+    if (typeof hidden !== "boolean") {
+      return NextResponse.json({ error: "hidden must be true or false" }, { status: 400 });
+    }
+
+    const video = await Video.findByIdAndUpdate(
+      id,
+      { $set: { isHidden: hidden, hiddenBy: hidden ? "moderator" : null } }, // a moderator's hide isn't undone by dismissing reports
+      { new: true }
+    )
+      .populate("owner", "username email")
+      .lean();
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    await logModerationAction({
+      actor: session.user.id,
+      action: hidden ? "video.hide" : "video.unhide",
+      targetType: "video",
+      target: id,
+    });
+
+    return NextResponse.json(video);
+  } catch (error) {
+    console.error("Error updating video visibility:", error);
+    return NextResponse.json(
+      { error: "Failed to update video" },
+      { status: 500 }
+    );
+  }
+}
+/*
+PATCH /api/admin/videos/:id
+Moderators and admins. Body: { hidden: boolean }
+Hiding keeps the video, its likes and comments; it just disappears from every public listing and its watch page 404s for everyone but the owner and admins (see lib/video-visibility.ts). Unhiding brings it back as it was. A video hidden here stays hidden when its reports are dismissed (see lib/moderation.ts).
+Every call is recorded in the audit log (lib/moderation.ts).
+Response: the updated video.
+*/
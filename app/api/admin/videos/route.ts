@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { requireModerator } from "@/lib/admin";
+import { afterCursor, decodeCursor, parseLimit, toPage } from "@/lib/pagination";
+import Video, { IVideo } from "@/models/Video";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requireModerator();
+    if (error) return error;
+
+    const { searchParams } = request.nextUrl;
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const position = cursor ? decodeCursor(cursor) : null;
+    const hiddenOnly = searchParams.get("hidden") === "true";
+
+    if (cursor && !position) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    // unlike the public feed, hidden videos are included here
+    const videos = await Video.find({
+      ...(hiddenOnly && { isHidden: true }),
+      ...(position && afterCursor(position)),
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate("owner", "username email")
+      .lean<(IVideo & { createdAt: Date; _id: mongoose.Types.ObjectId })[]>();
+
+    const { items, nextCursor } = toPage(videos, limit);
+    return NextResponse.json({ videos: items, nextCursor });
+  } catch (error) {
+    console.error("Error fetching videos for admin:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch videos" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/admin/videos?hidden=true&cursor=&limit=
+Moderators and admins. Every video, hidden or not, newest first, with the owner's username and email populated.
+hidden=true: only the hidden ones.
+Response: { videos, nextCursor }
+*/
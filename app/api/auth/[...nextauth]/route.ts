@@ -1,9 +1,36 @@
 import { authOptions } from "@/lib/auth";
+import {
+  getClientIp,
+  RATE_LIMITS,
+  rateLimit,
+  tooManyRequests,
+} from "@/lib/rate-limit";
 import NextAuth from "next-auth/next";
+import { NextRequest } from "next/server";
 
 const handler = NextAuth(authOptions);
 
-export { handler as GET, handler as POST };
+type RouteContext = { params: Promise<{ nextauth: string[] }> };
+
+async function POST(request: NextRequest, context: RouteContext) {
+  if (request.nextUrl.pathname.endsWith("/callback/credentials")) {
+    const { allowed, retryAfterSeconds } = await rateLimit(
+      `login-ip:${getClientIp(request.headers)}`,
+      RATE_LIMITS.loginPerIp
+    );
+
+    if (!allowed) {
+      // signIn() on the client reads the error from the url query, like for any other failed login
+      const url = new URL("/login", request.nextUrl.origin);
+      url.searchParams.set("error", "Too many login attempts. Please try again later.");
+      return tooManyRequests(retryAfterSeconds, { url: url.toString() });
+    }
+  }
+
+  return handler(request, context);
+}
+
+export { handler as GET, POST };
 // This file handles the NextAuth authentication routes for both GET and POST requests.
 // It imports the authentication options from the auth.ts file and initializes NextAuth with those options.
 // The GET and POST exports allow NextAuth to handle authentication requests for signing in, signing out, and session management.
@@ -11,4 +38,5 @@ export { handler as GET, handler as POST };
 // The handler is exported for use in the Next.js API routes, enabling the authentication flow to be integrated seamlessly into the application.
 // The authOptions define the authentication providers, callbacks, and session management settings for NextAuth.
 // This file is crucial for setting up the authentication system in a Next.js application, allowing for secure user login and session management.
-// It ensures that the authentication flow is handled correctly, providing a robust solution for user management in the application.        
\ No newline at end of file
+// It ensures that the authentication flow is handled correctly, providing a robust solution for user management in the application.
+// POST is wrapped to rate limit credential logins per client IP (see lib/rate-limit.ts) before NextAuth handles them.
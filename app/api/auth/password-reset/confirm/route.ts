@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/db";
+import { consumeAuthToken } from "@/lib/tokens";
+import { validatePassword } from "@/lib/validation";
+import User from "@/models/User";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json();
+
+    if (!token || !password) {
+      return NextResponse.json(
+        { error: "Token and new password are required" },
+        { status: 400 }
+      );
+    }
+
+    // checked before the token is consumed, so a weak password doesn't burn the link
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError, fieldErrors: { password: passwordError } },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+    const userId = await consumeAuthToken(String(token), "password-reset");
+    const user = userId && (await User.findById(userId));
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "This reset link is invalid or has expired" },
+        { status: 400 }
+      );
+    }
+
+    user.password = password; // hashed by the pre("save") hook in models/User.ts
+    user.passwordChangedAt = new Date(); // logs out every existing session (see the jwt callback in lib/auth.ts)
+    user.isVerified = true; // the link was opened from the inbox, which proves the email is theirs
+    await user.save();
+
+    return NextResponse.json({
+      message: "Password reset successfully. Please log in with your new password.",
+    });
+  } catch (error) {
+    console.error("Password reset confirm error:", error);
+    return NextResponse.json(
+      { error: "Failed to reset password" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/auth/password-reset/confirm
+Body: { token, password }
+Consumes the single-use token from the email and sets the new password.
+Using save() (not updateOne) is what runs the bcrypt pre("save") hook, so the new password is stored hashed.
+*/
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/db";
+import { appUrl, sendPasswordResetEmail } from "@/lib/emails";
+import {
+  getClientIp,
+  RATE_LIMITS,
+  rateLimit,
+  tooManyRequests,
+} from "@/lib/rate-limit";
+import { createAuthToken, lastTokenCreatedAt } from "@/lib/tokens";
+import { normalizeEmail } from "@/lib/validation";
+import User from "@/models/User";
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const PASSWORD_RESET_COOLDOWN_MS = 60 * 1000; // 1 minute between two emails
+
+const GENERIC_RESPONSE = {
+  message: "If an account exists for that email, a reset link has been sent.",
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const { allowed, retryAfterSeconds } = await rateLimit(
+      `password-reset-ip:${getClientIp(request.headers)}`,
+      RATE_LIMITS.passwordResetPerIp
+    );
+    if (!allowed) {
+      return tooManyRequests(retryAfterSeconds);
+    }
+
+    const { email } = await request.json();
+
+    if (!email || typeof email !== "string") {
+      return NextResponse.json({ error: "Email is required" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const user = await User.findOne({ email: normalizeEmail(email) });
+
+    if (user) {
+      const last = await lastTokenCreatedAt(user._id, "password-reset");
+      const coolingDown =
+        last && Date.now() - last.getTime() < PASSWORD_RESET_COOLDOWN_MS;
+
+      if (!coolingDown) {
+        const token = await createAuthToken(
+          user._id,
+          "password-reset",
+          PASSWORD_RESET_TTL_MS
+        );
+        await sendPasswordResetEmail(
+          user.email,
+          appUrl(`/reset-password?token=${token}`, request.nextUrl.origin)
+        );
+      }
+    }
+
+    // same answer whether or not the email is registered, so this can't be used to discover accounts
+    return NextResponse.json(GENERIC_RESPONSE);
+  } catch (error) {
+    console.error("Password reset request error:", error);
+    return NextResponse.json(
+      { error: "Failed to request password reset" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/auth/password-reset/request
+Body: { email }
+Emails a one-time reset link valid for 1 hour (a new request invalidates the previous link).
+Requests within PASSWORD_RESET_COOLDOWN_MS of the last email are silently ignored, so the endpoint can't be used to flood an inbox.
+*/
@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { connectToDatabase } from "@/lib/db";
 import User from "@/models/User";
+import { firstError, validateRegistration } from "@/lib/validation";
+import { sendVerificationLink } from "@/lib/verification";
+import {
+  getClientIp,
+  RATE_LIMITS,
+  rateLimit,
+  tooManyRequests,
+} from "@/lib/rate-limit";
 /*
 NextRequest, NextResponse: Next.js types for handling API requests and responses in the App Router.
 connectToDatabase: Utility function that ensures a MongoDB connection is established (see lib/db.ts). Handles connection pooling and caching for serverless/hot-reload safety.
@@ -9,22 +17,28 @@ User: The Mongoose model for users (see models/User.ts), which includes schema v
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json();
-    /*
-    Purpose: Handles HTTP POST requests to /api/auth/register.
-request.json(): Parses the incoming JSON body to extract email and password.
-     */
+    const { allowed, retryAfterSeconds } = await rateLimit(
+      `register-ip:${getClientIp(request.headers)}`,
+      RATE_LIMITS.registerPerIp
+    );
+    if (!allowed) {
+      return tooManyRequests(retryAfterSeconds); // 429 with a Retry-After header
+    }
 
-    if (!email || !password) {
+    const result = validateRegistration(await request.json());
+    if (!result.success) {
       return NextResponse.json(
-        { error: "Email and password are required" },
+        { error: firstError(result.errors), fieldErrors: result.errors },
         { status: 400 }
       );
     }
+    const { email, password, username } = result.data;
     /*
-    Checks: Ensures both email and password are provided.
-If missing: Returns a 400 Bad Request with an error message.
-
+    Purpose: Handles HTTP POST requests to /api/auth/register.
+request.json(): Parses the incoming JSON body, which then goes through the shared registration schema (lib/validation.ts) - the same rules the register page checks as you type.
+Checks: email format, username rules (lib/username.ts) and password strength (at least 8 characters with a letter and a number).
+If invalid: Returns a 400 Bad Request with one message per field in fieldErrors.
+result.data holds the normalized email (trimmed, lowercase) and username; nothing else from the body is used.
      */
 
     await connectToDatabase();
@@ -41,28 +55,45 @@ Behind the scenes: Uses a global cache to avoid opening multiple connections (se
         { status: 400 }
       );
     }
+
+    if (await User.exists({ username })) {
+      return NextResponse.json(
+        { error: "Username already taken" },
+        { status: 400 }
+      );
+    }
     /*
-    Purpose: Prevents duplicate registrations.
+    Purpose: Prevents duplicate registrations (same email) and duplicate usernames.
 How: Looks for an existing user with the same email.
 If found: Returns a 400 Bad Request with an error message.
  */
 
     // if user does not exist, create a new user
     // Note: Password should be hashed before saving in production
-    await User.create({
+    const user = await User.create({
       email,
       password,
+      username,
     });
+
+    try {
+      await sendVerificationLink(user, request.nextUrl.origin);
+    } catch (error) {
+      // the account exists either way, the user can ask for a new link from the upload page
+      console.error("Error sending verification email:", error);
+    }
     /*
     Creates: A new user document in MongoDB.
 Password Security:
 The User model’s schema includes a pre-save middleware (see models/User.ts) that automatically hashes the password using bcrypt before saving.
 This ensures passwords are never stored in plain text.
+Verification:
+New users start with isVerified: false and get an email with a one-time link (see lib/verification.ts). A failing mail transport doesn't fail the registration.
 
     */
 
     return NextResponse.json(
-      { message: "User registered successfully" },
+      { message: "User registered successfully. Check your email to verify your account." },
       { status: 201 }
     );
   } catch (error) {
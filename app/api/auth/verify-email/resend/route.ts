@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import {
+  sendVerificationLink,
+  verificationCooldownRemaining,
+} from "@/lib/verification";
+import User from "@/models/User";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await User.findById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (user.isVerified) {
+      return NextResponse.json(
+        { error: "Your email is already verified" },
+        { status: 400 }
+      );
+    }
+
+    const remaining = await verificationCooldownRemaining(user);
+    if (remaining > 0) {
+      const retryAfter = Math.ceil(remaining / 1000);
+      return NextResponse.json(
+        { error: `Please wait ${retryAfter} seconds before requesting another email` },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    await sendVerificationLink(user, request.nextUrl.origin);
+    return NextResponse.json({ message: "Verification email sent" });
+  } catch (error) {
+    console.error("Resend verification error:", error);
+    return NextResponse.json(
+      { error: "Failed to send verification email" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/auth/verify-email/resend
+Sends a new verification link to the logged in user, invalidating the previous one.
+Limited to one email per VERIFICATION_RESEND_COOLDOWN_MS (see lib/verification.ts); earlier requests get a 429 with Retry-After.
+*/
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/db";
+import { consumeAuthToken } from "@/lib/tokens";
+import User from "@/models/User";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+
+    if (!token || typeof token !== "string") {
+      return NextResponse.json(
+        { error: "Verification token is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+    const userId = await consumeAuthToken(token, "email-verification");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "This verification link is invalid or has expired" },
+        { status: 400 }
+      );
+    }
+
+    await User.updateOne({ _id: userId }, { isVerified: true });
+    return NextResponse.json({ message: "Email verified successfully" });
+  } catch (error) {
+    console.error("Email verification error:", error);
+    return NextResponse.json(
+      { error: "Failed to verify email" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/auth/verify-email
+Body: { token } taken from the link in the verification email (the /verify-email page posts it here).
+The token is single use: a second click on the same link gets the "invalid or has expired" error.
+*/
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { getFollowedIds } from "@/lib/follows";
+import { withLikedState } from "@/lib/likes";
+import { afterCursor, decodeCursor, parseLimit, toPage } from "@/lib/pagination";
+import { publicVideoFilter } from "@/lib/video-visibility";
+import Video, { IVideo } from "@/models/Video";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const position = cursor ? decodeCursor(cursor) : null;
+
+    if (cursor && !position) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const followedIds = await getFollowedIds(session.user.id);
+
+    if (followedIds.length === 0) {
+      return NextResponse.json({ videos: [], nextCursor: null });
+    }
+
+    const videos = await Video.find({
+      owner: { $in: followedIds },
+      ...publicVideoFilter(),
+      ...(position && afterCursor(position)),
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean<(IVideo & { createdAt: Date; _id: mongoose.Types.ObjectId })[]>();
+
+    const { items, nextCursor } = toPage(videos, limit);
+    return NextResponse.json({
+      videos: await withLikedState(items, session.user.id),
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("Error fetching following feed:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch following feed" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/feed/following?cursor=&limit=
+Reels from the creators the logged in user follows, newest first, same { videos, nextCursor } contract as GET /api/videos.
+*/
@@ -0,0 +1,116 @@
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { getStorageProvider, LocalStorageProvider } from "@/lib/storage";
+import { canViewVideo } from "@/lib/video-visibility";
+import UploadSession from "@/models/UploadSession";
+import User from "@/models/User";
+import Video, { IVideo } from "@/models/Video";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+  ".mkv": "video/x-matroska",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+// "bytes=100-199" -> { start: 100, end: 199 }, or null when the header doesn't fit the file
+function parseRange(header: string, size: number) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  // "bytes=-500" means the last 500 bytes
+  const start = match[1] ? Number(match[1]) : Math.max(size - Number(match[2]), 0);
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end && start < size ? { start, end } : null;
+}
+
+// who may load a stored file: "public" for everyone, "private" for this viewer only, null for nobody
+async function fileAccess(filePath: string) {
+  const paths = [filePath, `/${filePath}`]; // stored paths start with a slash, URLs don't
+  await connectToDatabase();
+  const session = await getServerSession(authOptions);
+
+  // the files of a video (and its cover) are seen by whoever may watch the video, see lib/video-visibility.ts
+  const videos = await Video.find({ $or: [{ videoUrl: { $in: paths } }, { thumbnailUrl: { $in: paths } }] })
+    .select("owner isHidden status publishAt")
+    .lean<IVideo[]>();
+  if (videos.some((video) => canViewVideo(video, undefined))) return "public";
+  if (videos.some((video) => canViewVideo(video, session?.user))) return "private";
+
+  if (await User.exists({ avatarUrl: { $in: paths } })) return "public"; // avatars show up on public profiles
+
+  // an upload that isn't used yet, previewed by its uploader in the upload forms
+  if (session && (await UploadSession.exists({ owner: session.user.id, "result.filePath": { $in: paths } }))) {
+    return "private";
+  }
+  return null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  try {
+    const storage = getStorageProvider();
+    // only the local provider serves files itself, ImageKit URLs point to ImageKit
+    if (!(storage instanceof LocalStorageProvider)) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const { path: segments } = await params;
+    const file = storage.resolve(segments.join("/"));
+    const stats = file ? await fs.stat(file).catch(() => null) : null;
+    const access = stats?.isFile() ? await fileAccess(segments.join("/")) : null;
+    if (!file || !stats || !access) { // a file the viewer may not see looks like a missing one
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const headers = new Headers({
+      "Content-Type": CONTENT_TYPES[path.extname(file).toLowerCase()] ?? "application/octet-stream",
+      "Accept-Ranges": "bytes",
+      // stored names are unique, a file never changes; files that aren't public stay out of shared caches
+      "Cache-Control": access === "public" ? "public, max-age=31536000, immutable" : "private, no-store",
+    });
+
+    // browsers request videos in ranges, which is what makes seeking work
+    const rangeHeader = request.headers.get("range");
+    if (rangeHeader) {
+      const range = parseRange(rangeHeader, stats.size);
+      if (!range) {
+        headers.set("Content-Range", `bytes */${stats.size}`);
+        return new NextResponse(null, { status: 416, headers });
+      }
+      headers.set("Content-Range", `bytes ${range.start}-${range.end}/${stats.size}`);
+      headers.set("Content-Length", String(range.end - range.start + 1));
+      const stream = createReadStream(file, range);
+      return new NextResponse(Readable.toWeb(stream) as ReadableStream, { status: 206, headers });
+    }
+
+    headers.set("Content-Length", String(stats.size));
+    return new NextResponse(Readable.toWeb(createReadStream(file)) as ReadableStream, { headers });
+  } catch (error) {
+    console.error("Error serving file:", error);
+    return NextResponse.json(
+      { error: "Failed to serve file" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/media/<path>
+Serves the files of the local storage provider (NEXT_PUBLIC_STORAGE_PROVIDER=local, see lib/storage.ts), e.g. /api/media/videos/3f2a-clip.mp4.
+Supports Range requests (206 Partial Content), so videos can be seeked and start playing before they are fully loaded.
+Paths that would leave LOCAL_UPLOAD_DIR are answered like missing files. With the ImageKit provider every request is a 404.
+Access follows what the file belongs to: a video's file and cover go to whoever may watch the video (canViewVideo), avatars to everyone, an upload not used by anything yet only to its uploader. Anything else is a 404.
+Only files of videos anyone can watch, and avatars, may be kept by shared caches.
+*/
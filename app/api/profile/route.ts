@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { deleteUnusedAvatarFile } from "@/lib/account-deletion";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { consumeUploads, findCompletedUpload } from "@/lib/upload-storage";
+import {
+  BIO_MAX_LENGTH,
+  normalizeUsername,
+  validateUsername,
+} from "@/lib/username";
+import { validateUploadId } from "@/lib/validation";
+import User from "@/models/User";
+
+const DUPLICATE_KEY_ERROR = 11000;
+const PROFILE_FIELDS = "email username bio avatarUrl createdAt";
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectToDatabase();
+    const user = await User.findById(session.user.id).select(PROFILE_FIELDS).lean();
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error("Error fetching profile:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch profile" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body: { username?: string; bio?: string; avatarUploadId?: string } =
+      await request.json();
+    const update: { username?: string; bio?: string; avatarUrl?: string; avatarFileId?: string } = {};
+
+    if (body.username !== undefined) {
+      update.username = normalizeUsername(String(body.username));
+      const usernameError = validateUsername(update.username);
+      if (usernameError) {
+        return NextResponse.json({ error: usernameError }, { status: 400 });
+      }
+    }
+
+    if (body.bio !== undefined) {
+      update.bio = String(body.bio).trim();
+      if (update.bio.length > BIO_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `Bio must be at most ${BIO_MAX_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+    }
+
+    await connectToDatabase();
+
+    if (body.avatarUploadId !== undefined) { // only the user's own finished image uploads, never a path picked by the client
+      const avatar = validateUploadId(body.avatarUploadId)
+        ? null
+        : await findCompletedUpload(body.avatarUploadId, session.user.id, "image");
+      if (!avatar) {
+        const fieldErrors = { avatarUploadId: "Please upload an avatar image" };
+        return NextResponse.json({ error: fieldErrors.avatarUploadId, fieldErrors }, { status: 400 });
+      }
+      update.avatarUrl = avatar.filePath;
+      update.avatarFileId = avatar.fileId;
+    }
+
+    try {
+      // the document as it was, for the avatar being replaced
+      const previous = await User.findByIdAndUpdate(session.user.id, update, { runValidators: true })
+        .select("+avatarFileId")
+        .lean<{ avatarFileId?: string }>();
+
+      if (!previous) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
+      await consumeUploads([body.avatarUploadId]);
+      if (previous.avatarFileId && update.avatarFileId && previous.avatarFileId !== update.avatarFileId) {
+        await deleteUnusedAvatarFile(previous.avatarFileId); // the replaced avatar
+      }
+
+      const user = await User.findById(session.user.id).select(PROFILE_FIELDS).lean();
+      return NextResponse.json(user);
+    } catch (error) {
+      // the unique index is the real guard against two users grabbing the same username at once
+      if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR) {
+        return NextResponse.json(
+          { error: "Username already taken" },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error updating profile:", error);
+    return NextResponse.json(
+      { error: "Failed to update profile" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/profile: The logged in user's own profile (includes the email, unlike the public GET /api/profiles/:username).
+PUT /api/profile: Updates username, bio and/or the avatar of the logged in user; any other field in the body is ignored.
+The avatar is given as avatarUploadId, a finished image upload of the user (see lib/upload-storage.ts); its stored path becomes avatarUrl. There is no way to set avatarUrl directly. The replaced avatar is deleted from the storage once the new one is saved.
+After a username change the client must call update() from useSession so the JWT carries the new one (see lib/auth.ts).
+*/
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import Follow from "@/models/Follow";
+import { normalizeUsername } from "@/lib/username";
+import { publicVideoFilter } from "@/lib/video-visibility";
+import User from "@/models/User";
+import Video from "@/models/Video";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ username: string }> }
+) {
+  try {
+    const username = normalizeUsername((await params).username); // already decoded by Next.js, decoding again breaks on "%"
+
+    await connectToDatabase();
+    const user = await User.findOne({ username })
+      .select("username bio avatarUrl createdAt") // public fields only, never the email or password
+      .lean<{ _id: mongoose.Types.ObjectId }>();
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const session = await getServerSession(authOptions);
+    const [followerCount, followingCount, followedByMe, videoCount] = await Promise.all([
+      Follow.countDocuments({ following: user._id }),
+      Follow.countDocuments({ follower: user._id }),
+      session ? Follow.exists({ follower: session.user.id, following: user._id }) : null,
+      Video.countDocuments({ owner: user._id, ...publicVideoFilter() }), // the reels list is paginated, so it can't be counted there
+    ]);
+
+    return NextResponse.json({
+      ...user,
+      videoCount,
+      followerCount,
+      followingCount,
+      followedByMe: !!followedByMe,
+    });
+  } catch (error) {
+    console.error("Error fetching profile:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch profile" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/profiles/:username
+Public profile of a user: _id, username, bio, avatarUrl and createdAt.
+Plus videoCount (their published reels), followerCount, followingCount and followedByMe (whether the logged in user follows them).
+The profile page (/u/[username]) then pages through the reels with GET /api/users/:_id/videos.
+*/
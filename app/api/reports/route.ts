@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { hideIfOverThreshold } from "@/lib/moderation";
+import { RATE_LIMITS, rateLimit, tooManyRequests } from "@/lib/rate-limit";
+import { firstError, validateReport } from "@/lib/validation";
+import { canViewVideo, linkedVideoFilter } from "@/lib/video-visibility";
+import Comment from "@/models/Comment";
+import Report, { ReportTargetType } from "@/models/Report";
+import Video, { IVideo } from "@/models/Video";
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// the author of a visible video or comment ("" for videos without an owner), or null when there is nothing to report
+async function findTargetAuthor(
+  targetType: ReportTargetType,
+  targetId: string,
+  viewer: { id: string; role?: string }
+) {
+  // already hidden items can't be reported, they're out of sight until a moderator decides; neither can drafts and private videos
+  if (targetType === "video") {
+    const video = await Video.findOne({ _id: targetId, ...linkedVideoFilter() })
+      .select("owner")
+      .lean<{ owner?: mongoose.Types.ObjectId }>();
+    return video ? video.owner?.toString() ?? "" : null;
+  }
+
+  const comment = await Comment.findOne({ _id: targetId, isHidden: { $ne: true } })
+    .select("author video")
+    .lean<{ author: mongoose.Types.ObjectId; video: mongoose.Types.ObjectId }>();
+  if (!comment) return null;
+
+  // a comment is only as visible as its video: comments under drafts, private or hidden videos look missing too
+  const video = await Video.findById(comment.video)
+    .select("owner isHidden status publishAt")
+    .lean<IVideo>();
+  return video && canViewVideo(video, viewer) ? comment.author.toString() : null;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { allowed, retryAfterSeconds } = await rateLimit(
+      `report-user:${session.user.id}`,
+      RATE_LIMITS.reportsPerUser
+    );
+    if (!allowed) {
+      return tooManyRequests(retryAfterSeconds);
+    }
+
+    const result = validateReport(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: firstError(result.errors), fieldErrors: result.errors },
+        { status: 400 }
+      );
+    }
+    const { targetType, targetId, reason, details } = result.data;
+
+    await connectToDatabase();
+
+    const authorId = await findTargetAuthor(targetType, targetId, session.user);
+
+    if (authorId === null) {
+      return NextResponse.json(
+        { error: `${targetType === "video" ? "Video" : "Comment"} not found` },
+        { status: 404 }
+      );
+    }
+
+    if (authorId === session.user.id) {
+      return NextResponse.json(
+        { error: `You can't report your own ${targetType}` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await Report.create({
+        reporter: session.user.id,
+        targetType,
+        target: targetId,
+        reason,
+        details,
+      });
+    } catch (error) {
+      // this user already has an open report on the item: nothing new to count
+      if ((error as { code?: number }).code !== DUPLICATE_KEY_ERROR) throw error;
+      return NextResponse.json({ message: "You already reported this" });
+    }
+
+    await hideIfOverThreshold(targetType, targetId);
+
+    return NextResponse.json(
+      { message: "Thanks, our moderators will take a look" },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating report:", error);
+    return NextResponse.json(
+      { error: "Failed to send report" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/reports
+Body: { targetType: "video" | "comment", targetId, reason, details? } (rules in lib/validation.ts, reasons in models/Report.ts)
+Signed in users only, at most RATE_LIMITS.reportsPerUser reports per hour.
+201: The report was recorded. If the item now has REPORT_HIDE_THRESHOLD open reports it is hidden right away (lib/moderation.ts).
+200: This user already has an open report on the item; reporting twice doesn't count twice.
+400: Invalid body, or the item is the user's own.
+404: The item doesn't exist or is already hidden, or it is a comment on a video the user can't watch.
+The reporter gets the same answer whether or not the item got hidden, so reports can't be used to probe the threshold.
+*/
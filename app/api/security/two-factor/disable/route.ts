@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkCurrentPassword, getCurrentUser } from "@/lib/reauth";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await getCurrentUser();
+    if (authError) return authError;
+
+    const { password } = await request.json();
+    const { error } = await checkCurrentPassword(user, password);
+    if (error) return error;
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorLastStep = null;
+    user.twoFactorRecoveryCodes = [];
+    await user.save();
+
+    return NextResponse.json({ message: "Two-factor authentication disabled" });
+  } catch (error) {
+    console.error("Error disabling two-factor authentication:", error);
+    return NextResponse.json(
+      { error: "Failed to disable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/security/two-factor/disable
+Body: { password }
+Turns 2FA off after re-entering the password, and forgets the secret and all recovery codes. Enabling it again starts a new enrollment.
+*/
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/reauth";
+import { verifyTotp } from "@/lib/totp";
+import { decryptSecret, generateRecoveryCodes } from "@/lib/two-factor";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await getCurrentUser();
+    if (error) return error;
+
+    const { code } = await request.json();
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      );
+    }
+    if (!user.twoFactorPendingSecret) {
+      return NextResponse.json(
+        { error: "Start the two-factor setup first" },
+        { status: 400 }
+      );
+    }
+
+    // proves the authenticator app was set up with this secret before any login depends on it
+    const secret = decryptSecret(user.twoFactorPendingSecret);
+    const step = typeof code === "string" ? verifyTotp(secret, code.trim()) : null;
+    if (step === null) {
+      return NextResponse.json(
+        { error: "Invalid authentication code", fieldErrors: { code: "Invalid authentication code" } },
+        { status: 400 }
+      );
+    }
+
+    const { codes, hashed } = generateRecoveryCodes();
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorEnabled = true;
+    user.twoFactorLastStep = step; // the code just typed can't also be used to log in
+    user.twoFactorRecoveryCodes = hashed;
+    await user.save();
+
+    return NextResponse.json({ recoveryCodes: codes });
+  } catch (error) {
+    console.error("Error enabling two-factor authentication:", error);
+    return NextResponse.json(
+      { error: "Failed to enable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/security/two-factor/enable
+Body: { code } (6 digits from the authenticator app)
+Step 2 of enrollment: confirms the pending secret and turns 2FA on; from now on logging in with a password also asks for a code (lib/auth.ts).
+Response: { recoveryCodes: ["abcde-12345", ...] }, shown to the user once and only stored hashed. Each one replaces an authenticator code for one login.
+*/
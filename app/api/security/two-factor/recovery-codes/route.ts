@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkCurrentPassword, getCurrentUser } from "@/lib/reauth";
+import { generateRecoveryCodes } from "@/lib/two-factor";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await getCurrentUser();
+    if (authError) return authError;
+
+    const { password } = await request.json();
+    const { error } = await checkCurrentPassword(user, password);
+    if (error) return error;
+
+    if (!user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    const { codes, hashed } = generateRecoveryCodes();
+    user.twoFactorRecoveryCodes = hashed; // the old codes stop working
+    await user.save();
+
+    return NextResponse.json({ recoveryCodes: codes });
+  } catch (error) {
+    console.error("Error regenerating recovery codes:", error);
+    return NextResponse.json(
+      { error: "Failed to regenerate recovery codes" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/security/two-factor/recovery-codes
+Body: { password }
+Replaces all recovery codes with 10 new ones (e.g. when most are used up or the printout got lost).
+Response: { recoveryCodes: [...] }, shown once.
+*/
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/reauth";
+
+export async function GET() {
+  try {
+    const { user, error } = await getCurrentUser();
+    if (error) return error;
+
+    return NextResponse.json({
+      enabled: user.twoFactorEnabled ?? false,
+      recoveryCodesRemaining: (user.twoFactorRecoveryCodes ?? []).filter(
+        (code: { usedAt: Date | null }) => !code.usedAt
+      ).length,
+      hasPassword: !!user.password, // 2FA can only be managed by users who can re-enter a password
+    });
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch two-factor status" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/security/two-factor
+The current user's 2FA status for the security settings page (app/settings/security/page.tsx).
+Response: { enabled, recoveryCodesRemaining, hasPassword }
+*/
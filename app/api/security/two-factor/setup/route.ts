@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import QRCode from "qrcode";
+import { checkCurrentPassword, getCurrentUser } from "@/lib/reauth";
+import { generateTotpSecret, totpUri } from "@/lib/totp";
+import { encryptSecret, TWO_FACTOR_ISSUER } from "@/lib/two-factor";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await getCurrentUser();
+    if (authError) return authError;
+
+    const { password } = await request.json();
+    const { error } = await checkCurrentPassword(user, password);
+    if (error) return error;
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      );
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = encryptSecret(secret); // becomes the real secret once a first code confirms it
+    await user.save();
+
+    const otpauthUri = totpUri({ secret, account: user.email, issuer: TWO_FACTOR_ISSUER });
+    return NextResponse.json({
+      secret, // for typing into the app by hand when the QR code can't be scanned
+      otpauthUri,
+      qrCode: await QRCode.toDataURL(otpauthUri), // data: URL of a PNG, used directly as <img src>
+    });
+  } catch (error) {
+    console.error("Error starting two-factor setup:", error);
+    return NextResponse.json(
+      { error: "Failed to start two-factor setup" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/security/two-factor/setup
+Body: { password }
+Step 1 of enrollment: after re-entering the password, creates a new TOTP secret and returns it as a QR code and an otpauth:// URI for the authenticator app.
+Nothing changes for logins yet; POST /api/security/two-factor/enable with a code from the app turns 2FA on.
+Calling it again (e.g. after losing the QR code) replaces the pending secret.
+*/
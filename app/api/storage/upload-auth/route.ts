@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getStorageProvider } from "@/lib/storage";
+
+export async function GET() {
+  try {
+    const storage = getStorageProvider();
+    return NextResponse.json({ provider: storage.name, ...storage.signUpload() });
+  } catch (error) {
+    console.error("Storage authentication error:", error);
+    return NextResponse.json(
+      { error: "Authentication failed" },
+      {
+        status: 500,
+      }
+    );
+  }
+}
+
+/*
+export async function GET():
+
+Defines the handler for HTTP GET requests to /api/storage/upload-auth.
+In Next.js App Router, this is the new way to define API endpoints.
+Inside the handler:
+
+getStorageProvider().signUpload():
+Asks the configured storage provider (lib/storage.ts) for a set of upload parameters (token, expire, signature).
+With ImageKit these come from the ImageKit SDK and let a client upload one file straight to ImageKit; the local provider signs them the same way with LOCAL_STORAGE_SECRET, and checks them when the file is sent to POST /api/storage/upload.
+The signature is made with a secret, so it must run on the server.
+provider:
+Tells the client which storage the parameters are for ("imagekit" or "local").
+Error Handling:
+
+If anything goes wrong (e.g., missing env vars, SDK error), it logs the error and returns a 500 Internal Server Error with a generic message.
+Behind the Scenes & Project Integration
+Why is this endpoint needed?
+The app's own upload form sends files through our server in chunks (app/api/uploads), but clients that upload straight to the storage (scripts, integration tests, other apps) still need a server-generated signature.
+Security:
+The private key is never sent to the client, only the signature.
+Like every route that isn't listed as public in middleware.ts, it needs a logged in user.
+*/
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { getStorageProvider, LocalStorageProvider } from "@/lib/storage";
+import {
+  canOpenUploadSession,
+  cleanupExpiredUploadSessions,
+  createPartFile,
+  storeUploadedFile,
+  UPLOAD_SESSION_TTL_MS,
+  writeChunk,
+} from "@/lib/upload-storage";
+import { IMAGE_MAX_BYTES, validateUploadFile } from "@/lib/validation";
+import UploadSession from "@/models/UploadSession";
+
+const FORM_OVERHEAD_BYTES = 64 * 1024; // multipart boundaries and the signature fields around the file
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // ImageKit takes direct uploads itself, only the local provider needs this route
+    const storage = getStorageProvider();
+    if (!(storage instanceof LocalStorageProvider)) {
+      return NextResponse.json({ error: "Direct uploads go to the storage provider" }, { status: 404 });
+    }
+
+    // checked before reading the body, so an oversized request is never buffered
+    const contentLength = Number(request.headers.get("content-length") ?? NaN);
+    if (!Number.isSafeInteger(contentLength)) {
+      return NextResponse.json({ error: "Content-Length is required" }, { status: 411 });
+    }
+    if (contentLength > IMAGE_MAX_BYTES + FORM_OVERHEAD_BYTES) {
+      return NextResponse.json({ error: "File is too large" }, { status: 413 });
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+    const signed = storage.verifyUpload({
+      token: String(form.get("token") ?? ""),
+      expire: Number(form.get("expire")),
+      signature: String(form.get("signature") ?? ""),
+    });
+    if (!signed) {
+      return NextResponse.json({ error: "Invalid or expired upload signature" }, { status: 403 });
+    }
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Please choose a file" }, { status: 400 });
+    }
+    const fileError = validateUploadFile("image", file);
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    await cleanupExpiredUploadSessions();
+    if (!(await canOpenUploadSession(session.user.id, file.size))) {
+      return NextResponse.json(
+        { error: "Too many unfinished uploads, publish or cancel some first" },
+        { status: 429 }
+      );
+    }
+
+    // recorded like a finished chunked upload in one chunk, so its uploadId works everywhere an upload is taken
+    const upload = await UploadSession.create({
+      owner: session.user.id,
+      fileName: file.name || "image",
+      fileType: "image",
+      mimeType: file.type,
+      size: file.size,
+      chunkSize: file.size,
+      receivedBytes: file.size,
+      status: "finalizing",
+      expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS),
+    });
+    const uploadId = upload._id.toString();
+    await createPartFile(uploadId);
+    await writeChunk(uploadId, 0, Buffer.from(await file.arrayBuffer()));
+
+    const stored = await storeUploadedFile(upload);
+    await UploadSession.updateOne({ _id: upload._id }, { status: "complete", result: stored });
+    return NextResponse.json({ ...stored, uploadId }, { status: 201 });
+  } catch (error) {
+    console.error("Error storing direct upload:", error);
+    return NextResponse.json(
+      { error: "Failed to upload file" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/storage/upload
+The local provider's counterpart of ImageKit's upload endpoint, for clients that upload straight to the storage (see lib/storage.ts).
+Body (multipart/form-data): file, plus token, expire and signature from GET /api/storage/upload-auth.
+Only images (covers, avatars) up to IMAGE_MAX_BYTES: videos go through the chunked uploads of app/api/uploads. Content-Length is checked before the body is read (411 / 413).
+403: The signature wasn't made by this server or has expired (LocalStorageProvider.verifyUpload).
+429: The user has too many uploads open, the same limits as POST /api/uploads.
+Response (201): { uploadId, fileId, filePath, url }, the same as completing a chunked upload: creating a cover or avatar from the file takes uploadId.
+404 with the ImageKit provider: the client uploads to ImageKit with the signature instead.
+*/
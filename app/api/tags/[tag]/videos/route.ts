@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { withLikedState } from "@/lib/likes";
+import { afterCursor, decodeCursor, parseLimit, toPage } from "@/lib/pagination";
+import { normalizeTag } from "@/lib/tags";
+import { publicVideoFilter } from "@/lib/video-visibility";
+import Video, { IVideo } from "@/models/Video";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tag: string }> }
+) {
+  try {
+    const tag = normalizeTag((await params).tag); // Next.js already decoded the segment, a literal "%" must not be decoded again
+    if (!tag) {
+      return NextResponse.json({ error: "Invalid tag" }, { status: 400 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const position = cursor ? decodeCursor(cursor) : null;
+
+    if (cursor && !position) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const videos = await Video.find({ tags: tag, ...publicVideoFilter(), ...(position && afterCursor(position)) })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean<(IVideo & { createdAt: Date; _id: mongoose.Types.ObjectId })[]>();
+
+    const { items, nextCursor } = toPage(videos, limit);
+    const session = await getServerSession(authOptions);
+
+    return NextResponse.json({
+      videos: await withLikedState(items, session?.user.id),
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("Error fetching tag videos:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tag videos" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/tags/:tag/videos?cursor=&limit=
+Videos with the given hashtag, newest first, with the same { videos, nextCursor } contract as GET /api/videos.
+The tag is normalized like stored tags, so /api/tags/Dance/videos and /api/tags/%23dance/videos both find "dance".
+*/
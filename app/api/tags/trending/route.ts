@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToDatabase } from "@/lib/db";
+import { publicVideoFilter } from "@/lib/video-visibility";
+import Video from "@/models/Video";
+
+const DEFAULT_WINDOW_DAYS = 7;
+const MAX_WINDOW_DAYS = 90;
+const DEFAULT_TRENDING_LIMIT = 10;
+const MAX_TRENDING_LIMIT = 50;
+
+function parseBoundedInt(value: string | null, fallback: number, max: number) {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) return fallback;
+  return Math.min(parsed, max);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const days = parseBoundedInt(searchParams.get("days"), DEFAULT_WINDOW_DAYS, MAX_WINDOW_DAYS);
+    const limit = parseBoundedInt(searchParams.get("limit"), DEFAULT_TRENDING_LIMIT, MAX_TRENDING_LIMIT);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    await connectToDatabase();
+    const trending = await Video.aggregate<{ tag: string; count: number }>([
+      {
+        // only recent, visible videos that have tags
+        $match: { createdAt: { $gte: since }, "tags.0": { $exists: true }, ...publicVideoFilter() },
+      },
+      { $unwind: "$tags" }, // one document per (video, tag)
+      { $group: { _id: "$tags", count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } }, // most used first, alphabetical on a tie
+      { $limit: limit },
+      { $project: { _id: 0, tag: "$_id", count: 1 } },
+    ]);
+
+    return NextResponse.json(trending);
+  } catch (error) {
+    console.error("Error fetching trending tags:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trending tags" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/tags/trending?days=&limit=
+The most used hashtags among videos uploaded in the last `days` days (default 7, max 90).
+Response: [{ tag, count }], count being how many of those recent videos use the tag.
+The $match on createdAt uses the { createdAt: -1, _id: -1 } index, so only the recent window is scanned.
+*/
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { storeUploadedFile } from "@/lib/upload-storage";
+import UploadSession, { IUploadSession } from "@/models/UploadSession";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid upload ID" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    // takes the session from "uploading" to "finalizing" only when every byte arrived, so only one request stores the file
+    const upload = await UploadSession.findOneAndUpdate(
+      {
+        _id: id,
+        owner: session.user.id,
+        status: "uploading",
+        $expr: { $eq: ["$receivedBytes", "$size"] },
+      },
+      { status: "finalizing" },
+      { new: true }
+    ).lean<IUploadSession & { _id: mongoose.Types.ObjectId }>();
+
+    if (!upload) {
+      const current = await UploadSession.findOne({ _id: id, owner: session.user.id }).lean<IUploadSession>();
+      if (!current) {
+        return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+      }
+      if (current.status === "complete") {
+        return NextResponse.json({ ...current.result, uploadId: id }); // the response to an earlier completion got lost
+      }
+      return NextResponse.json(
+        {
+          error: current.status === "finalizing" ? "The upload is still being processed" : "The upload isn't finished yet",
+          receivedBytes: current.receivedBytes,
+        },
+        { status: 409 }
+      );
+    }
+
+    try {
+      const stored = await storeUploadedFile(upload);
+      await UploadSession.updateOne({ _id: upload._id }, { status: "complete", result: stored });
+      return NextResponse.json({ ...stored, uploadId: id });
+    } catch (error) {
+      // the staged file is still there, let the client try again
+      await UploadSession.updateOne({ _id: upload._id }, { status: "uploading" });
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error completing upload:", error);
+    return NextResponse.json(
+      { error: "Failed to complete upload" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/uploads/:id/complete
+Once every chunk is stored, hands the file to the storage provider (see lib/storage.ts).
+Response: { uploadId, fileId, filePath, url, thumbnailUrl? }. filePath is for previews; creating a video, cover or avatar from the file takes uploadId, which the server checks against the user's own finished uploads.
+Calling it again after success returns the same result; calling it too early gets a 409 with receivedBytes.
+*/
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { deleteUnusedUpload, removePartFile, writeChunk } from "@/lib/upload-storage";
+import UploadSession, { IUploadSession } from "@/models/UploadSession";
+
+// loads an upload session of the logged in user, returning either the session or the error response to send
+async function getOwnedUpload(id: string) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  if (!mongoose.isValidObjectId(id)) {
+    return { error: NextResponse.json({ error: "Invalid upload ID" }, { status: 400 }) };
+  }
+
+  await connectToDatabase();
+  const upload = await UploadSession.findOne({ _id: id, owner: session.user.id }).lean<
+    IUploadSession & { _id: mongoose.Types.ObjectId }
+  >();
+  if (!upload) {
+    // someone else's session looks like a missing one
+    return { error: NextResponse.json({ error: "Upload not found" }, { status: 404 }) };
+  }
+
+  return { upload };
+}
+
+function toUploadResponse(upload: IUploadSession) {
+  return {
+    id: upload._id,
+    fileName: upload.fileName,
+    chunkSize: upload.chunkSize,
+    receivedBytes: upload.receivedBytes,
+    size: upload.size,
+    status: upload.status,
+    result: upload.result ? { ...upload.result, uploadId: upload._id } : null,
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { upload, error } = await getOwnedUpload(id);
+    if (error) return error;
+
+    return NextResponse.json(toUploadResponse(upload));
+  } catch (error) {
+    console.error("Error fetching upload:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch upload" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { upload, error } = await getOwnedUpload(id);
+    if (error) return error;
+
+    if (upload.status !== "uploading") {
+      return NextResponse.json(
+        { error: "This upload is already complete", receivedBytes: upload.receivedBytes },
+        { status: 409 }
+      );
+    }
+
+    // checked before reading the body, so an oversized request is never buffered
+    const contentLength = Number(request.headers.get("content-length") ?? NaN);
+    if (!Number.isSafeInteger(contentLength)) {
+      return NextResponse.json({ error: "Content-Length is required" }, { status: 411 });
+    }
+    if (contentLength > upload.chunkSize) {
+      return NextResponse.json({ error: "Chunk is too large" }, { status: 413 });
+    }
+
+    const offset = Number(request.nextUrl.searchParams.get("offset"));
+    const chunk = Buffer.from(await request.arrayBuffer());
+
+    if (!Number.isSafeInteger(offset) || offset < 0 || chunk.length === 0) {
+      return NextResponse.json({ error: "Invalid chunk" }, { status: 400 });
+    }
+    if (chunk.length > upload.chunkSize || offset + chunk.length > upload.size) {
+      return NextResponse.json({ error: "Chunk is too large" }, { status: 413 });
+    }
+
+    // already stored (a retry after a lost response): nothing to write
+    if (offset + chunk.length <= upload.receivedBytes) {
+      return NextResponse.json({ receivedBytes: upload.receivedBytes });
+    }
+    // chunks must arrive in order; the client picks up again from receivedBytes
+    if (offset !== upload.receivedBytes) {
+      return NextResponse.json(
+        { error: "Chunk out of order", receivedBytes: upload.receivedBytes },
+        { status: 409 }
+      );
+    }
+
+    await writeChunk(id, offset, chunk);
+    const updated = await UploadSession.findOneAndUpdate(
+      { _id: id, receivedBytes: offset }, // a concurrent request with the same chunk may have counted it already
+      { receivedBytes: offset + chunk.length },
+      { new: true }
+    ).lean<IUploadSession>();
+
+    return NextResponse.json({
+      receivedBytes: updated?.receivedBytes ?? offset + chunk.length,
+    });
+  } catch (error) {
+    console.error("Error storing upload chunk:", error);
+    return NextResponse.json(
+      { error: "Failed to store chunk" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { upload, error } = await getOwnedUpload(id);
+    if (error) return error;
+
+    await removePartFile(id);
+    if (upload.status === "complete" && upload.result) await deleteUnusedUpload(upload.result);
+    await UploadSession.deleteOne({ _id: upload._id });
+    return NextResponse.json({ message: "Upload cancelled" });
+  } catch (error) {
+    console.error("Error cancelling upload:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel upload" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/uploads/:id
+Where an upload stands: { id, fileName, chunkSize, receivedBytes, size, status, result }. The browser asks before resuming (e.g. after a page reload), since chunks it sent may or may not have arrived.
+
+PUT /api/uploads/:id?offset=<byte>
+Body: the raw bytes of one chunk (application/octet-stream), at most chunkSize of them. Content-Length is required and checked before the body is read (411 / 413).
+Chunks are accepted in order only: offset must equal receivedBytes. A repeated chunk gets a 200 without being written again, a chunk from the future a 409; both answers carry receivedBytes so the client knows where to continue.
+Response: { receivedBytes }
+
+DELETE /api/uploads/:id
+Cancels the upload and deletes what was staged. A complete upload that nothing used yet also loses its stored file (used ones have no session left, see lib/upload-storage.ts).
+
+All three only work for the user who started the upload.
+*/
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import {
+  canOpenUploadSession,
+  cleanupExpiredUploadSessions,
+  createPartFile,
+  UPLOAD_CHUNK_SIZE,
+  UPLOAD_SESSION_TTL_MS,
+} from "@/lib/upload-storage";
+import { firstError, validateUploadSession } from "@/lib/validation";
+import UploadSession from "@/models/UploadSession";
+import User from "@/models/User";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = validateUploadSession(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: firstError(result.errors), fieldErrors: result.errors },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    // videos are only staged for users who may publish them, like POST /api/videos
+    if (result.data.fileType === "video") {
+      const user = await User.findById(session.user.id).select("isVerified").lean<{ isVerified?: boolean }>();
+      if (!user?.isVerified) {
+        return NextResponse.json(
+          { error: "Please verify your email before uploading videos" },
+          { status: 403 }
+        );
+      }
+    }
+
+    await cleanupExpiredUploadSessions();
+    if (!(await canOpenUploadSession(session.user.id, result.data.size))) {
+      return NextResponse.json(
+        { error: "Too many unfinished uploads, publish or cancel some first" },
+        { status: 429 }
+      );
+    }
+
+    const upload = await UploadSession.create({
+      ...result.data,
+      owner: session.user.id,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS),
+    });
+    await createPartFile(upload._id.toString());
+
+    return NextResponse.json(
+      {
+        id: upload._id,
+        chunkSize: upload.chunkSize,
+        receivedBytes: 0,
+        size: upload.size,
+        status: upload.status,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error starting upload:", error);
+    return NextResponse.json(
+      { error: "Failed to start upload" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/uploads
+Body: { fileName, fileType: "video" | "image", mimeType, size }
+Starts a chunked upload (see lib/upload-storage.ts) after checking the file type and size with the same rules as the browser.
+Response (201): { id, chunkSize, receivedBytes: 0, size, status }. The client then sends the file chunk by chunk to PUT /api/uploads/:id.
+403: A video upload by a user whose email isn't verified yet (they couldn't publish it anyway).
+429: The user already has UPLOAD_MAX_OPEN_SESSIONS uploads open, or this one would take them past UPLOAD_MAX_OPEN_BYTES (see lib/upload-storage.ts).
+*/
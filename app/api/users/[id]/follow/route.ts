@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import Follow from "@/models/Follow";
+import User from "@/models/User";
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+
+    if (id === session.user.id) {
+      return NextResponse.json(
+        { error: "You cannot follow yourself" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+    if (!(await User.exists({ _id: id }))) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    try {
+      await Follow.create({ follower: session.user.id, following: id });
+    } catch (error) {
+      if ((error as { code?: number }).code !== DUPLICATE_KEY_ERROR) throw error; // already following is fine
+    }
+
+    const followerCount = await Follow.countDocuments({ following: id });
+    return NextResponse.json({ following: true, followerCount });
+  } catch (error) {
+    console.error("Error following user:", error);
+    return NextResponse.json({ error: "Failed to follow user" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    await Follow.deleteOne({ follower: session.user.id, following: id });
+
+    const followerCount = await Follow.countDocuments({ following: id });
+    return NextResponse.json({ following: false, followerCount });
+  } catch (error) {
+    console.error("Error unfollowing user:", error);
+    return NextResponse.json(
+      { error: "Failed to unfollow user" },
+      { status: 500 }
+    );
+  }
+}
+
+/*
+POST /api/users/:id/follow and DELETE /api/users/:id/follow
+The logged in user follows / unfollows user :id. Both are idempotent and respond with { following, followerCount }.
+Counts are computed with countDocuments on the indexed follows collection instead of a counter on the user, so they can never drift.
+*/
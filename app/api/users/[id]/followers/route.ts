@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+import { listFollows } from "@/lib/follows";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return listFollows(request, (await params).id, "followers");
+}
+// GET /api/users/:id/followers?cursor=&limit= : the users following :id (see lib/follows.ts)
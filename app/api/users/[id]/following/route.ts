@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+import { listFollows } from "@/lib/follows";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return listFollows(request, (await params).id, "following");
+}
+// GET /api/users/:id/following?cursor=&limit= : the users :id follows (see lib/follows.ts)
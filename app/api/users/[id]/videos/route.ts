@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { withLikedState } from "@/lib/likes";
+import { afterCursor, decodeCursor, parseLimit, toPage } from "@/lib/pagination";
+import { publicVideoFilter, videoStatusFilter } from "@/lib/video-visibility";
+import Video, { IVideo, VIDEO_STATUSES, VideoStatus } from "@/models/Video";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = request.nextUrl;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const position = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !position) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const session = await getServerSession(authOptions);
+    const isOwner = session?.user.id === id; // owners still see their hidden, draft and private videos on "My reels"
+
+    // ?status=draft etc. narrows the owner's own list, e.g. for the drafts tab
+    const status = searchParams.get("status");
+    if (status && !VIDEO_STATUSES.includes(status as VideoStatus)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const videos = await Video.find({
+      owner: id,
+      // others only see what this user published
+      ...(isOwner ? status && videoStatusFilter(status as VideoStatus) : publicVideoFilter()),
+      ...(position && afterCursor(position)),
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean<(IVideo & { createdAt: Date; _id: mongoose.Types.ObjectId })[]>();
+
+    const { items, nextCursor } = toPage(videos, limit);
+    return NextResponse.json({
+      videos: await withLikedState(items, session?.user.id),
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("Error fetching user videos:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch user videos" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/users/:id/videos?cursor=&limit=
+Pages through the videos whose owner is the given user, newest first, with the same cursor contract as GET /api/videos: { videos, nextCursor }.
+Used by the /me/videos page ("My reels") and the public profiles (/u/:username) through apiClient.getUserVideos.
+Videos created before the owner field existed have no owner and never show up here.
+Videos hidden by an admin, drafts, scheduled, unlisted and private videos are only listed for their owner.
+?status=<draft|scheduled|published|unlisted|private>: only the owner's videos with that status (ignored for other viewers), used by the tabs of "My reels".
+*/
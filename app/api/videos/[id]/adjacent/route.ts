@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { canViewVideo, publicVideoFilter } from "@/lib/video-visibility";
+import Video, { IVideo } from "@/models/Video";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid video ID" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const video = await Video.findById(id)
+      .select("createdAt owner isHidden status publishAt")
+      .lean<IVideo & { _id: mongoose.Types.ObjectId; createdAt: Date }>();
+
+    const session = await getServerSession(authOptions);
+
+    if (!video || !canViewVideo(video, session?.user)) { // same 404 as GET /api/videos/:id, so this doesn't reveal drafts or hidden reels either
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    // the feed is sorted newest first, so the "next" reel is the closest older one
+    const [next, previous] = await Promise.all([
+      Video.findOne({
+        ...publicVideoFilter(), // hidden reels are skipped
+        $or: [
+          { createdAt: { $lt: video.createdAt } },
+          { createdAt: video.createdAt, _id: { $lt: video._id } },
+        ],
+      })
+        .sort({ createdAt: -1, _id: -1 })
+        .select("_id")
+        .lean<{ _id: mongoose.Types.ObjectId }>(),
+      Video.findOne({
+        ...publicVideoFilter(),
+        $or: [
+          { createdAt: { $gt: video.createdAt } },
+          { createdAt: video.createdAt, _id: { $gt: video._id } },
+        ],
+      })
+        .sort({ createdAt: 1, _id: 1 })
+        .select("_id")
+        .lean<{ _id: mongoose.Types.ObjectId }>(),
+    ]);
+
+    return NextResponse.json({
+      nextId: next?._id.toString() ?? null,
+      previousId: previous?._id.toString() ?? null,
+    });
+  } catch (error) {
+    console.error("Error fetching adjacent videos:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch adjacent videos" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/videos/:id/adjacent
+Returns the ids of the reels around the given one in feed order (createdAt descending), used for the "next reel" navigation on the watch page.
+Ties on createdAt are broken by _id so two reels saved in the same millisecond still have a stable order.
+nextId / previousId are null at the ends of the feed.
+404: The video doesn't exist or the viewer can't watch it (canViewVideo, lib/video-visibility.ts).
+*/
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import Comment from "@/models/Comment";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, commentId } = await params;
+    if (!mongoose.isValidObjectId(id) || !mongoose.isValidObjectId(commentId)) {
+      return NextResponse.json({ error: "Invalid comment ID" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const comment = await Comment.findOne({ _id: commentId, video: id });
+
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    if (comment.author.toString() !== session.user.id) { // only the author can delete a comment
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    await Comment.deleteMany({ parent: comment._id }); // the replies go with their top-level comment
+    await comment.deleteOne();
+
+    return NextResponse.json({ message: "Comment deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete comment" },
+      { status: 500 }
+    );
+  }
+}
+/*
+DELETE /api/videos/:id/comments/:commentId
+Author-only. Deleting a top-level comment also deletes its replies, otherwise they would be orphaned and never shown.
+*/
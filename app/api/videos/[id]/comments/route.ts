@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { COMMENT_MAX_LENGTH } from "@/lib/constants";
+import { connectToDatabase } from "@/lib/db";
+import { afterCursor, decodeCursor, parseLimit, toPage } from "@/lib/pagination";
+import { canViewVideo, linkedVideoFilter } from "@/lib/video-visibility";
+import Comment from "@/models/Comment";
+import Video, { IVideo } from "@/models/Video";
+
+type PopulatedComment = {
+  _id: mongoose.Types.ObjectId;
+  video: mongoose.Types.ObjectId;
+  author: { _id: mongoose.Types.ObjectId; email: string; username?: string } | null;
+  parent: mongoose.Types.ObjectId | null;
+  body: string;
+  createdAt: Date;
+};
+
+// only a display name (the username, or for older accounts the start of the email) leaves the server, never the email itself
+function toCommentResponse(comment: PopulatedComment) {
+  return {
+    _id: comment._id,
+    video: comment.video,
+    parent: comment.parent,
+    body: comment.body,
+    createdAt: comment.createdAt,
+    author: comment.author
+      ? {
+          _id: comment.author._id,
+          name: comment.author.username ?? comment.author.email.split("@")[0],
+          username: comment.author.username ?? null,
+        }
+      : null,
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid video ID" }, { status: 400 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const position = cursor ? decodeCursor(cursor) : null;
+
+    if (cursor && !position) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    // the comments of a video nobody may see would leak that it exists and what people said about it
+    const video = await Video.findById(id).select("owner isHidden status publishAt").lean<IVideo>();
+    const session = await getServerSession(authOptions);
+    if (!video || !canViewVideo(video, session?.user)) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    const topLevel = await Comment.find({
+      video: id,
+      parent: null,
+      isHidden: { $ne: true }, // taken down by moderators or reports, see lib/moderation.ts
+      ...(position && afterCursor(position)),
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate("author", "email username")
+      .lean<PopulatedComment[]>();
+    const { items, nextCursor } = toPage(topLevel, limit);
+
+    // all replies of this page in one query, oldest first so conversations read top to bottom
+    const replies = await Comment.find({
+      video: id,
+      parent: { $in: items.map((comment) => comment._id) },
+      isHidden: { $ne: true },
+    })
+      .sort({ createdAt: 1, _id: 1 })
+      .populate("author", "email username")
+      .lean<PopulatedComment[]>();
+
+    const comments = items.map((comment) => ({
+      ...toCommentResponse(comment),
+      replies: replies
+        .filter((reply) => reply.parent?.equals(comment._id))
+        .map(toCommentResponse),
+    }));
+
+    return NextResponse.json({ comments, nextCursor });
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch comments" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/videos/:id/comments?cursor=&limit=
+Pages through the top-level comments of a video (newest first, same cursor contract as GET /api/videos).
+Each top-level comment comes with all of its replies, so one page is everything needed to render that part of the thread.
+Hidden comments are left out, and so are the replies under a hidden top-level comment.
+404 for a video the viewer can't watch (canViewVideo, like GET /api/videos/:id), so the comments of a private or draft video stay private too.
+*/
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid video ID" }, { status: 400 });
+    }
+
+    const { body, parentId }: { body?: unknown; parentId?: string } =
+      await request.json();
+    const text = typeof body === "string" ? body.trim() : "";
+
+    if (!text) {
+      return NextResponse.json(
+        { error: "Comment cannot be empty" },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > COMMENT_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment must be at most ${COMMENT_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    if (!(await Video.exists({ _id: id, ...linkedVideoFilter() }))) { // hidden, draft and private videos can't get new comments
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    if (parentId) {
+      if (!mongoose.isValidObjectId(parentId)) {
+        return NextResponse.json({ error: "Invalid parent comment ID" }, { status: 400 });
+      }
+
+      const parent = await Comment.findOne({ _id: parentId, video: id })
+        .select("parent")
+        .lean<{ parent: mongoose.Types.ObjectId | null }>();
+      if (!parent) {
+        return NextResponse.json(
+          { error: "Parent comment not found" },
+          { status: 404 }
+        );
+      }
+      if (parent.parent) {
+        return NextResponse.json(
+          { error: "Replies can only be one level deep" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const comment = await Comment.create({
+      video: id,
+      author: session.user.id,
+      parent: parentId || null,
+      body: text,
+    });
+    await comment.populate("author", "email username");
+
+    return NextResponse.json(
+      { ...toCommentResponse(comment.toObject()), replies: [] },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating comment:", error);
+    return NextResponse.json(
+      { error: "Failed to create comment" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/videos/:id/comments
+Body: { body: string, parentId?: string }
+Logged in users only. parentId must be a top-level comment on the same video, replies to replies are rejected.
+*/
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { linkedVideoFilter } from "@/lib/video-visibility";
+import Like from "@/models/Like";
+import Video from "@/models/Video";
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid video ID" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    if (!(await Video.exists({ _id: id, ...linkedVideoFilter() }))) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    try {
+      await Like.create({ user: session.user.id, video: id });
+    } catch (error) {
+      // already liked (or a concurrent request won the race): nothing to count
+      if ((error as { code?: number }).code !== DUPLICATE_KEY_ERROR) throw error;
+      const video = await Video.findById(id).select("likeCount").lean<{ likeCount: number }>();
+      return NextResponse.json({ liked: true, likeCount: video?.likeCount ?? 0 });
+    }
+
+    const video = await Video.findByIdAndUpdate(
+      id,
+      { $inc: { likeCount: 1 } }, // atomic increment, safe with concurrent likes from other users
+      { new: true }
+    ).lean<{ likeCount: number }>();
+
+    return NextResponse.json({ liked: true, likeCount: video?.likeCount ?? 0 });
+  } catch (error) {
+    console.error("Error liking video:", error);
+    return NextResponse.json({ error: "Failed to like video" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Invalid video ID" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const removed = await Like.findOneAndDelete({ user: session.user.id, video: id });
+
+    // only the request that actually removed the like decrements the counter
+    const video = removed
+      ? await Video.findByIdAndUpdate(
+          id,
+          { $inc: { likeCount: -1 } },
+          { new: true }
+        ).lean<{ likeCount: number }>()
+      : await Video.findById(id).select("likeCount").lean<{ likeCount: number }>();
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ liked: false, likeCount: video.likeCount });
+  } catch (error) {
+    console.error("Error unliking video:", error);
+    return NextResponse.json({ error: "Failed to unlike video" }, { status: 500 });
+  }
+}
+
+/*
+POST /api/videos/:id/like and DELETE /api/videos/:id/like
+Both require a logged in user and respond with { liked, likeCount } so the client can reconcile its optimistic state.
+Both are idempotent: liking twice or unliking a video you never liked leaves the counter untouched.
+Consistency:
+The Like document (unique per user + video) is the source of truth; likeCount on the Video is a denormalized counter for fast listing.
+The counter only moves by $inc, and only when the Like insert / delete really happened, so concurrent requests can't double count.
+*/
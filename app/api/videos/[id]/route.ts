@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { getServerSession } from "next-auth/next";
+import { deleteUnusedVideoFile, deleteVideos } from "@/lib/account-deletion";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { withLikedState } from "@/lib/likes";
+import { buildTags, extractTags } from "@/lib/tags";
+import { frameThumbnailPath } from "@/lib/thumbnails";
+import { consumeUploads, findCompletedUpload } from "@/lib/upload-storage";
+import { firstError, validateVideoUpdate } from "@/lib/validation";
+import { canViewVideo, isPublished } from "@/lib/video-visibility";
+import Video, { IVideo } from "@/models/Video";
+
+// loads a video and makes sure the logged in user owns it, returning either the video or the error response to send
+async function getOwnedVideo(id: string) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  if (!mongoose.isValidObjectId(id)) {
+    return {
+      error: NextResponse.json({ error: "Invalid video ID" }, { status: 400 }),
+    };
+  }
+
+  await connectToDatabase();
+  const video = await Video.findById(id).select("+fileId +thumbnailFileId"); // both needed to delete replaced or removed files
+
+  if (!video) {
+    return {
+      error: NextResponse.json({ error: "Video not found" }, { status: 404 }),
+    };
+  }
+
+  if (video.owner?.toString() !== session.user.id) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { video };
+}
+/*
+getOwnedVideo is shared by PUT and DELETE since both need the exact same checks, in this order:
+401: Not logged in.
+400: Malformed id.
+404: No such video.
+403: Logged in, but the video belongs to someone else (or has no owner at all).
+*/
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params; // in Next.js 15 dynamic route params are async
+
+    if (!mongoose.isValidObjectId(id)) { // rejecting malformed ids before they reach mongo
+      return NextResponse.json({ error: "Invalid video ID" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const video = await Video.findById(id).lean<IVideo>();
+
+    const session = await getServerSession(authOptions);
+
+    if (!video || !canViewVideo(video, session?.user)) { // a hidden, draft or private video looks like a missing one (see lib/video-visibility.ts)
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    const [videoWithLikes] = await withLikedState([video], session?.user.id);
+    return NextResponse.json(videoWithLikes);
+  } catch (error) {
+    console.error("Error fetching video:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch video" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/videos/:id
+Returns a single video document, used by the watch page (app/videos/[id]/page.tsx) through apiClient.getVideo.
+400: The id is not a valid MongoDB ObjectId (e.g. /api/videos/abc), so there is no point querying the database.
+404: The id is well formed but no video with that _id exists, or the viewer may not see it (see canViewVideo in lib/video-visibility.ts): a draft, private or not yet published scheduled video for anyone but its owner, a hidden one for anyone but its owner and moderators. Unlisted videos open for everyone.
+*/
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { video, error } = await getOwnedVideo(id);
+    if (error) return error;
+
+    // the shared schema rejects invalid values and drops any field that isn't editable
+    const result = validateVideoUpdate(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: firstError(result.errors), fieldErrors: result.errors },
+        { status: 400 }
+      );
+    }
+    const body = result.data;
+
+    if (body.tags !== undefined || body.description !== undefined) {
+      const oldDescriptionTags = buildTags(extractTags(video.description));
+      const newDescription = body.description ?? video.description;
+      // without new explicit tags, keep the ones that didn't come from the old description
+      const explicitTags = body.tags
+        ? body.tags
+        : (video.tags as string[]).filter(
+            (tag) => !oldDescriptionTags.includes(tag)
+          );
+      video.tags = buildTags(explicitTags, extractTags(newDescription));
+    }
+
+    // only these fields can be edited
+    if (body.title !== undefined) video.title = body.title;
+    if (body.description !== undefined) video.description = body.description;
+    const previousCoverId = video.thumbnailFileId;
+    if (typeof body.thumbnailTime === "number") { // a frame of the video
+      video.thumbnailUrl = frameThumbnailPath(video.videoUrl, body.thumbnailTime);
+      video.thumbnailTime = body.thumbnailTime;
+      video.thumbnailFileId = undefined;
+    } else if (body.coverUploadId !== undefined) { // an uploaded cover, only from the owner's own finished uploads
+      const cover = await findCompletedUpload(body.coverUploadId, video.owner.toString(), "image");
+      if (!cover) {
+        const fieldErrors = { coverUploadId: "Please upload a cover image" };
+        return NextResponse.json({ error: fieldErrors.coverUploadId, fieldErrors }, { status: 400 });
+      }
+      video.thumbnailUrl = cover.filePath;
+      video.thumbnailTime = null;
+      video.thumbnailFileId = cover.fileId;
+    }
+    if (body.controls !== undefined) video.controls = body.controls;
+    if (body.status !== undefined) {
+      const wasLive = isPublished(video);
+      video.status = body.status;
+      if (body.status === "scheduled") video.publishAt = body.publishAt;
+      else if (body.status === "published") video.publishAt = wasLive ? video.publishAt : new Date(); // re-saving a live video keeps its date
+      else video.publishAt = null;
+    }
+    if (body.quality !== undefined) {
+      video.set("transformation.quality", body.quality);
+    }
+
+    const updatedVideo = await video.save(); // save() runs the schema validators (e.g. quality between 1 and 100)
+    await consumeUploads([body.coverUploadId]);
+    if (previousCoverId && previousCoverId !== updatedVideo.thumbnailFileId) {
+      await deleteUnusedVideoFile(previousCoverId); // the replaced cover, unless another video still shows it
+    }
+    return NextResponse.json(updatedVideo);
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error updating video:", error);
+    return NextResponse.json(
+      { error: "Failed to update video" },
+      { status: 500 }
+    );
+  }
+}
+/*
+PUT /api/videos/:id
+Owner-only edit of title, description, tags, controls, transformation.quality and the thumbnail.
+The thumbnail is either { thumbnailTime } (a frame of the video) or { coverUploadId } (a finished image upload of the owner, see lib/upload-storage.ts); a replaced cover is deleted from the storage.
+status moves the video between draft, scheduled, published, unlisted and private; publishAt is only read for "scheduled" and must be in the future.
+Tags are recomputed whenever the description or the explicit tags change.
+videoUrl, owner and the dimensions can't be changed, since they describe the uploaded file itself.
+*/
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { video, error } = await getOwnedVideo(id);
+    if (error) return error;
+
+    await deleteVideos([video]); // also removes its stored file, likes, comments and reports
+    return NextResponse.json({ message: "Video deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting video:", error);
+    return NextResponse.json(
+      { error: "Failed to delete video" },
+      { status: 500 }
+    );
+  }
+}
+/*
+DELETE /api/videos/:id
+Owner-only. Removes the uploaded file from the storage (when we know its fileId), then the video document with its likes, comments and reports (see lib/account-deletion.ts).
+Videos uploaded before fileId was stored only lose their database entry; their files stay in the storage.
+*/
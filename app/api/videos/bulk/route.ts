@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { consumeUploads } from "@/lib/upload-storage";
+import { BULK_UPLOAD_MAX_VIDEOS, firstError, validateVideoCreate } from "@/lib/validation";
+import { BulkCreateItemResult, newVideoData, resolveVideoFiles } from "@/lib/videos";
+import User from "@/models/User";
+import Video from "@/models/Video";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectToDatabase();
+
+    // checked against the database, not the session, like POST /api/videos
+    const user = await User.findById(session.user.id).select("isVerified").lean<{ isVerified?: boolean }>();
+    if (!user?.isVerified) {
+      return NextResponse.json(
+        { error: "Please verify your email before publishing videos" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const items: unknown[] = Array.isArray(body?.videos) ? body.videos : [];
+    if (items.length === 0) {
+      return NextResponse.json({ error: "No videos to create" }, { status: 400 });
+    }
+    if (items.length > BULK_UPLOAD_MAX_VIDEOS) {
+      return NextResponse.json(
+        { error: `At most ${BULK_UPLOAD_MAX_VIDEOS} videos can be created at once` },
+        { status: 400 }
+      );
+    }
+
+    // one by one, so an invalid or failing item doesn't stop the others
+    const results: BulkCreateItemResult[] = [];
+    for (const [index, item] of items.entries()) {
+      const result = validateVideoCreate(item);
+      if (!result.success) {
+        results.push({ index, success: false, error: firstError(result.errors), fieldErrors: result.errors });
+        continue;
+      }
+
+      try {
+        const resolved = await resolveVideoFiles(result.data, session.user.id);
+        if ("errors" in resolved) {
+          results.push({ index, success: false, error: firstError(resolved.errors), fieldErrors: resolved.errors });
+          continue;
+        }
+        const video = await Video.create(newVideoData(result.data, resolved.files, session.user.id));
+        await consumeUploads([result.data.uploadId, result.data.coverUploadId]);
+        results.push({ index, success: true, video });
+      } catch (error) {
+        console.error(`Error creating video ${index} of a bulk upload:`, error);
+        results.push({ index, success: false, error: "Failed to create video" });
+      }
+    }
+
+    const created = results.filter((result) => result.success).length;
+    return NextResponse.json({ results, created, failed: results.length - created });
+  } catch (error) {
+    console.error("Error creating videos:", error);
+    return NextResponse.json(
+      { error: "Failed to create videos" },
+      { status: 500 }
+    );
+  }
+}
+/*
+POST /api/videos/bulk
+Body: { videos: [...] }, each item exactly what POST /api/videos takes (title, description, uploadId, thumbnailTime or coverUploadId, tags, status, publishAt...).
+Creates up to BULK_UPLOAD_MAX_VIDEOS videos at once for the bulk upload page. Every item goes through validateVideoCreate and resolveVideoFiles on its own, so one bad item doesn't reject the whole batch.
+uploadId and coverUploadId must name finished uploads of the caller (a video and an image), and each upload backs one video only: two items naming the same one fail from the second on.
+Response (200, even when some items failed): { results, created, failed }
+results: One entry per item, in the same order, with its index: { success: true, video } or { success: false, error, fieldErrors? }.
+The request itself fails (400/401/403) only for a missing login, an unverified email, or an empty or too long list.
+*/
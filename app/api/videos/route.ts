@@ -1,13 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
 import { connectToDatabase } from "@/lib/db";
+import { withLikedState } from "@/lib/likes";
+import { afterCursor, decodeCursor, parseLimit, toPage } from "@/lib/pagination";
+import { consumeUploads } from "@/lib/upload-storage";
+import { firstError, validateVideoCreate } from "@/lib/validation";
+import { publicVideoFilter } from "@/lib/video-visibility";
+import { newVideoData, resolveVideoFiles } from "@/lib/videos";
+import User from "@/models/User";
 import Video, { IVideo } from "@/models/Video";
 
-export async function GET() { // get all the videos from the database as an array and pass them on
+export async function GET(request: NextRequest) { // get one page of videos from the database and pass them on
   try {
+    const { searchParams } = request.nextUrl;
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const position = cursor ? decodeCursor(cursor) : null;
+
+    if (cursor && !position) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
     await connectToDatabase(); 
-    const videos = await Video.find({}).sort({ createdAt: -1 }).lean(); // finding all the videos ans sort them in descending order based on createdAt 
+    const session = await getServerSession(authOptions);
+    // only published videos (and scheduled ones whose publishAt has passed), see lib/video-visibility.ts
+    const videos = await Video.find({ ...publicVideoFilter(), ...(position && afterCursor(position)) })
+      .sort({ createdAt: -1, _id: -1 }) // newest first, _id keeps the order stable between pages
+      .limit(limit + 1)
+      .lean<(IVideo & { createdAt: Date; _id: mongoose.Types.ObjectId })[]>();
     /*
     The .lean() method in Mongoose changes the result of your query from Mongoose documents to plain JavaScript objects.
 
@@ -28,11 +50,16 @@ You don’t need to modify or save these documents.
 Using .lean() improves performance and reduces memory usage.
     */
 
-    if (!videos || videos.length === 0) { // sending empty array if no videos in the array
-      return NextResponse.json([], { status: 200 });
-    }
-
-    return NextResponse.json(videos);
+    const { items, nextCursor } = toPage(videos, limit);
+    return NextResponse.json({
+      videos: await withLikedState(items, session?.user.id),
+      nextCursor,
+    });
+    /*
+    Response: { videos: IVideo[], nextCursor: string | null }
+    videos: At most `limit` videos (default 12, max 50).
+    nextCursor: Pass it back as ?cursor= to get the following page; null means this was the last page.
+    */
   } catch (error) {
     console.error("Error fetching videos:", error);
     return NextResponse.json(
@@ -52,48 +79,46 @@ export async function POST(request: NextRequest) {
 
     await connectToDatabase();
 
-    const body: IVideo = await request.json();
+    // checked against the database, not the session, so verifying takes effect without logging in again
+    const user = await User.findById(session.user.id).select("isVerified").lean<{ isVerified?: boolean }>();
+    if (!user?.isVerified) {
+      return NextResponse.json(
+        { error: "Please verify your email before publishing videos" },
+        { status: 403 }
+      );
+    }
+
+    const result = validateVideoCreate(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: firstError(result.errors), fieldErrors: result.errors },
+        { status: 400 }
+      );
+    }
+    const body = result.data;
     /*
-    Reads the incoming HTTP request body (from a POST request, typically sent as JSON from the frontend).
-Parses the JSON content of the request body into a JavaScript object.
-Type-annotates the resulting object as IVideo (from your models/Video.ts), which means TypeScript will treat body as having the structure:
-title: string
-description: string
-videoUrl: string
-thumbnailUrl: string
-controls?: boolean
-transformation?: { height: number; width: number; quality?: number }
-(and optional _id, createdAt, updatedAt)
+    Reads the incoming HTTP request body (from a POST request, typically sent as JSON from the frontend) and runs it through the shared video schema (see lib/validation.ts).
+If any field is invalid: Returns a 400 with one message per field in fieldErrors, which the upload form shows next to the inputs.
+If valid: result.data holds only the known fields (title, description, uploadId, thumbnailTime, coverUploadId, controls, quality, tags, status, publishAt), trimmed and with defaults applied (status defaults to "published").
+resolveVideoFiles (lib/videos.ts) then turns uploadId and coverUploadId into the stored files, answering 400 for uploads that aren't this user's finished ones. When the creator picked a frame (thumbnailTime), thumbnailUrl becomes the ImageKit URL of that frame (lib/thumbnails.ts).
 Purpose:
-This allows you to safely access properties like body.title, body.videoUrl, etc., with TypeScript type checking and autocompletion.
-It is used to validate and process the incoming video data before saving it to the database.
+Only whitelisted fields are persisted, so a client can't set owner, likeCount, _id or anything else the schema doesn't expect.
     */
 
-    // Validate required fields
-    if (
-      !body.title ||
-      !body.description ||
-      !body.videoUrl ||
-      !body.thumbnailUrl
-    ) {
+    // the video and cover must be finished uploads of this user, the client never names a stored file itself
+    const resolved = await resolveVideoFiles(body, session.user.id);
+    if ("errors" in resolved) {
       return NextResponse.json(
-        { error: "Missing required fields" },
+        { error: firstError(resolved.errors), fieldErrors: resolved.errors },
         { status: 400 }
       );
     }
 
-    // Create new video with default values
-    const videoData = {
-      ...body,
-      controls: body.controls ?? true,
-      transformation: {
-        height: 1920,
-        width: 1080,
-        quality: body.transformation?.quality ?? 100,
-      },
-    };
+    // Create new video with default values (height 1920, width 1080, quality 100 unless given)
+    const videoData = newVideoData(body, resolved.files, session.user.id);
 
     const newVideo = await Video.create(videoData);
+    await consumeUploads([body.uploadId, body.coverUploadId]);
     /*
     Video.create(videoData):
 Uses the Mongoose Video model to create a new document in the MongoDB videos collection.
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { connectToDatabase } from "@/lib/db";
+import { withLikedState } from "@/lib/likes";
+import {
+  decodeOffsetCursor,
+  encodeOffsetCursor,
+  parseLimit,
+} from "@/lib/pagination";
+import { publicVideoFilter } from "@/lib/video-visibility";
+import Video, { IVideo } from "@/models/Video";
+
+const MAX_QUERY_LENGTH = 100;
+const MAX_OFFSET = 500; // skip() walks past every earlier match, so results end here; refining the query beats paging deeper
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const query = searchParams.get("q")?.trim() ?? "";
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const offset = cursor ? decodeOffsetCursor(cursor) : 0;
+
+    if (!query) {
+      return NextResponse.json(
+        { error: "Search query is required" },
+        { status: 400 }
+      );
+    }
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search query must be at most ${MAX_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (offset === null || offset > MAX_OFFSET) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const videos = await Video.find(
+      { $text: { $search: query }, ...publicVideoFilter() },
+      { score: { $meta: "textScore" } } // exposes the relevance of each match so we can sort on it
+    )
+      // best match first, newer first on a tie; _id makes the order total so pages don't overlap or miss matches
+      .sort({ score: { $meta: "textScore" }, createdAt: -1, _id: -1 })
+      .skip(offset)
+      .limit(limit + 1)
+      .lean<IVideo[]>();
+
+    const hasMore = videos.length > limit && offset + limit <= MAX_OFFSET;
+    const session = await getServerSession(authOptions);
+
+    return NextResponse.json({
+      videos: await withLikedState(videos.slice(0, limit), session?.user.id),
+      nextCursor: hasMore ? encodeOffsetCursor(offset + limit) : null,
+    });
+  } catch (error) {
+    console.error("Error searching videos:", error);
+    return NextResponse.json(
+      { error: "Failed to search videos" },
+      { status: 500 }
+    );
+  }
+}
+/*
+GET /api/videos/search?q=&cursor=&limit=
+Full-text search over title and description using the "video_text_search" text index on the videos collection.
+MongoDB text search handles stemming and stop words ("dancing" matches "dance"), quoted phrases ("new york" in quotes) and exclusions ("-cat").
+Results are ranked by textScore, which can't be resumed from like a (createdAt, _id) position, so pagination uses an offset cursor instead of the feed's keyset cursor.
+Ties are broken by createdAt and then _id, so the order is the same on every request and offsets don't repeat or skip videos.
+Offsets are capped at MAX_OFFSET: the last page ends with nextCursor null, and a cursor past the cap is answered with 400 "Invalid cursor".
+This route lives under /api/videos/search; Next.js matches the static "search" segment before the dynamic [id] one.
+*/
@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { apiClient, AuditEntry } from "@/lib/api-client";
+
+export default function AdminAuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchEntries = useCallback(async (cursor: string | null) => {
+    setLoading(true);
+    try {
+      const data = await apiClient.getAuditLog(cursor);
+      setEntries((prev) => (cursor ? [...prev, ...data.entries] : data.entries));
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries(null);
+  }, [fetchEntries]);
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Who</th>
+              <th>Action</th>
+              <th>Target</th>
+              <th>Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry._id}>
+                <td className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                <td>
+                  {entry.actor
+                    ? entry.actor.username
+                      ? `@${entry.actor.username}`
+                      : entry.actor.email
+                    : "automatic"}
+                </td>
+                <td>
+                  <code>{entry.action}</code>
+                </td>
+                <td className="font-mono text-xs">
+                  {entry.targetType} {entry.target}
+                </td>
+                <td>{entry.details}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {!loading && entries.length === 0 && (
+        <p className="text-center text-base-content/70">No moderation actions yet</p>
+      )}
+
+      {(loading || nextCursor) && (
+        <div className="flex justify-center">
+          <button
+            className="btn btn-ghost"
+            disabled={loading}
+            onClick={() => fetchEntries(nextCursor)}
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load more"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
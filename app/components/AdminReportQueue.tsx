@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { useNotification } from "./Notification";
+import { apiClient, getApiErrorMessage, ReportQueueItem } from "@/lib/api-client";
+import { ReportStatus } from "@/lib/constants";
+
+export default function AdminReportQueue() {
+  const { showNotification } = useNotification();
+  const [items, setItems] = useState<ReportQueueItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<ReportStatus>("open");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchItems = useCallback(
+    async (cursor: string | null) => {
+      setLoading(true);
+      try {
+        const data = await apiClient.getReportQueue(cursor, status);
+        setItems((prev) => (cursor ? [...prev, ...data.items] : data.items));
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error("Error fetching report queue:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    fetchItems(null);
+  }, [fetchItems]);
+
+  const handleAction = async (item: ReportQueueItem, action: "resolve" | "dismiss") => {
+    setBusyId(item.targetId);
+    try {
+      await apiClient.handleReports(item.targetType, item.targetId, action);
+      setItems((prev) => prev.filter((i) => i.targetId !== item.targetId)); // handled items leave the open queue
+      showNotification(action === "resolve" ? "Reports resolved, item hidden" : "Reports dismissed", "success");
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to update reports"), "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <select
+        value={status}
+        onChange={(e) => setStatus(e.target.value as ReportStatus)}
+        className="select select-bordered select-sm"
+      >
+        <option value="open">Open</option>
+        <option value="resolved">Resolved</option>
+        <option value="dismissed">Dismissed</option>
+      </select>
+
+      {items.map((item) => (
+        <div key={`${item.targetType}-${item.targetId}`} className="card bg-base-100 shadow">
+          <div className="card-body p-4 gap-2">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <span className="badge badge-outline mr-2">{item.targetType}</span>
+                {item.target ? (
+                  <Link href={`/videos/${item.target.videoId}`} className="font-semibold hover:underline">
+                    {item.target.title ?? `"${item.target.body}"`}
+                  </Link>
+                ) : (
+                  <span className="italic opacity-70">deleted</span>
+                )}
+                {item.target?.isHidden && (
+                  <span className="badge badge-warning badge-sm ml-2">Hidden</span>
+                )}
+              </div>
+              <span className="badge badge-error whitespace-nowrap">
+                {item.reportCount} report{item.reportCount === 1 ? "" : "s"}
+              </span>
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(item.reasons).map(([reason, count]) => (
+                <span key={reason} className="badge badge-ghost badge-sm">
+                  {reason} x{count}
+                </span>
+              ))}
+            </div>
+
+            {item.details.length > 0 && (
+              <ul className="text-sm text-base-content/70 list-disc pl-5">
+                {item.details.map((detail, index) => (
+                  <li key={index}>{detail}</li>
+                ))}
+              </ul>
+            )}
+
+            {status === "open" && (
+              <div className="card-actions justify-end">
+                <button
+                  className="btn btn-sm"
+                  disabled={busyId === item.targetId}
+                  onClick={() => handleAction(item, "dismiss")}
+                >
+                  Dismiss
+                </button>
+                <button
+                  className="btn btn-sm btn-error"
+                  disabled={busyId === item.targetId}
+                  onClick={() => handleAction(item, "resolve")}
+                >
+                  Resolve &amp; hide
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {!loading && items.length === 0 && (
+        <p className="text-center text-base-content/70">Nothing to review</p>
+      )}
+
+      {(loading || nextCursor) && (
+        <div className="flex justify-center">
+          <button
+            className="btn btn-ghost"
+            disabled={loading}
+            onClick={() => fetchItems(nextCursor)}
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load more"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
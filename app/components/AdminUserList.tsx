@@ -0,0 +1,146 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { useNotification } from "./Notification";
+import { AdminUser, apiClient, getApiErrorMessage } from "@/lib/api-client";
+import { USER_ROLES, UserRole } from "@/lib/constants";
+
+export default function AdminUserList() {
+  const { showNotification } = useNotification();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState(""); // the submitted query, the list reloads when it changes
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(
+    async (cursor: string | null) => {
+      setLoading(true);
+      try {
+        const data = await apiClient.getAdminUsers(cursor, search);
+        setUsers((prev) => (cursor ? [...prev, ...data.users] : data.users));
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error("Error fetching users for admin:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [search]
+  );
+
+  useEffect(() => {
+    fetchUsers(null);
+  }, [fetchUsers]);
+
+  const updateUser = async (user: AdminUser, update: Parameters<typeof apiClient.updateAdminUser>[1]) => {
+    setBusyId(user._id);
+    try {
+      const updated = await apiClient.updateAdminUser(user._id, update);
+      setUsers((prev) => prev.map((u) => (u._id === updated._id ? updated : u)));
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to update user"), "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSearch(query.trim());
+        }}
+      >
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by email or username"
+          className="input input-bordered w-full max-w-sm"
+        />
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="table">
+          <thead>
+            <tr>
+              <th>User</th>
+              <th>Role</th>
+              <th>Status</th>
+              <th>Joined</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => (
+              <tr key={user._id}>
+                <td>
+                  <div>{user.email}</div>
+                  {user.username && (
+                    <Link href={`/u/${user.username}`} className="text-sm opacity-70 hover:underline">
+                      @{user.username}
+                    </Link>
+                  )}
+                </td>
+                <td>
+                  <select
+                    value={user.role}
+                    disabled={busyId === user._id}
+                    onChange={(e) => updateUser(user, { role: e.target.value as UserRole })}
+                    className="select select-bordered select-sm"
+                  >
+                    {USER_ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {role}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  {user.suspendedAt ? (
+                    <span className="badge badge-error">Suspended</span>
+                  ) : user.isVerified ? (
+                    <span className="badge badge-success">Verified</span>
+                  ) : (
+                    <span className="badge">Unverified</span>
+                  )}
+                </td>
+                <td>{new Date(user.createdAt).toLocaleDateString()}</td>
+                <td className="text-right">
+                  <button
+                    className={`btn btn-sm ${user.suspendedAt ? "" : "btn-error"}`}
+                    disabled={busyId === user._id}
+                    onClick={() => updateUser(user, { suspended: !user.suspendedAt })}
+                  >
+                    {user.suspendedAt ? "Unsuspend" : "Suspend"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {!loading && users.length === 0 && (
+        <p className="text-center text-base-content/70">No users found</p>
+      )}
+
+      {(loading || nextCursor) && (
+        <div className="flex justify-center">
+          <button
+            className="btn btn-ghost"
+            disabled={loading}
+            onClick={() => fetchUsers(nextCursor)}
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load more"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { useNotification } from "./Notification";
+import { AdminVideo, apiClient, getApiErrorMessage } from "@/lib/api-client";
+
+export default function AdminVideoList() {
+  const { showNotification } = useNotification();
+  const [videos, setVideos] = useState<AdminVideo[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [hiddenOnly, setHiddenOnly] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchVideos = useCallback(
+    async (cursor: string | null) => {
+      setLoading(true);
+      try {
+        const data = await apiClient.getAdminVideos(cursor, hiddenOnly);
+        setVideos((prev) => (cursor ? [...prev, ...data.videos] : data.videos));
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error("Error fetching videos for admin:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [hiddenOnly]
+  );
+
+  useEffect(() => {
+    fetchVideos(null);
+  }, [fetchVideos]);
+
+  const toggleHidden = async (video: AdminVideo) => {
+    const id = video._id!.toString();
+    setBusyId(id);
+    try {
+      const updated = await apiClient.setVideoHidden(id, !video.isHidden);
+      setVideos((prev) =>
+        prev.map((v) => (v._id?.toString() === id ? { ...v, isHidden: updated.isHidden } : v))
+      );
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to update video"), "error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="label cursor-pointer justify-start gap-2">
+        <input
+          type="checkbox"
+          className="checkbox"
+          checked={hiddenOnly}
+          onChange={(e) => setHiddenOnly(e.target.checked)}
+        />
+        Only hidden videos
+      </label>
+
+      <div className="overflow-x-auto">
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Video</th>
+              <th>Owner</th>
+              <th>Likes</th>
+              <th>Uploaded</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {videos.map((video) => (
+              <tr key={video._id!.toString()}>
+                <td>
+                  <Link href={`/videos/${video._id}`} className="hover:underline">
+                    {video.title}
+                  </Link>
+                  {video.isHidden && (
+                    <span className="badge badge-warning badge-sm ml-2">Hidden</span>
+                  )}
+                </td>
+                <td>
+                  {video.owner
+                    ? video.owner.username
+                      ? `@${video.owner.username}`
+                      : video.owner.email
+                    : "-"}
+                </td>
+                <td>{video.likeCount ?? 0}</td>
+                <td>{video.createdAt ? new Date(video.createdAt).toLocaleDateString() : "-"}</td>
+                <td className="text-right">
+                  <button
+                    className={`btn btn-sm ${video.isHidden ? "" : "btn-warning"}`}
+                    disabled={busyId === video._id!.toString()}
+                    onClick={() => toggleHidden(video)}
+                  >
+                    {video.isHidden ? "Unhide" : "Hide"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {!loading && videos.length === 0 && (
+        <p className="text-center text-base-content/70">No videos found</p>
+      )}
+
+      {(loading || nextCursor) && (
+        <div className="flex justify-center">
+          <button
+            className="btn btn-ghost"
+            disabled={loading}
+            onClick={() => fetchVideos(nextCursor)}
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load more"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
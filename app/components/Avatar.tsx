@@ -0,0 +1,31 @@
+import { mediaUrl } from "@/lib/media";
+
+interface AvatarProps {
+  avatarUrl?: string;
+  username?: string;
+  size?: number;
+}
+
+export default function Avatar({ avatarUrl, username, size = 96 }: AvatarProps) {
+  return (
+    <div
+      className="rounded-full overflow-hidden bg-base-300 flex items-center justify-center shrink-0"
+      style={{ width: size, height: size }}
+    >
+      {avatarUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element -- the storage already serves a resized image
+        <img
+          src={mediaUrl(avatarUrl, { height: size * 2, width: size * 2 })} // 2x for sharp avatars on retina screens
+          alt={username ?? "avatar"}
+          width={size}
+          height={size}
+          className="w-full h-full object-cover"
+        />
+      ) : (
+        <span className="font-bold opacity-60" style={{ fontSize: size / 2.5 }}>
+          {username?.[0]?.toUpperCase() ?? "?"}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { CheckCircle2, Loader2, RotateCcw, X } from "lucide-react";
+import { useNotification } from "./Notification";
+import { apiClient, getApiErrorMessage, UploadResult } from "@/lib/api-client";
+import { ChunkedUpload, UploadState } from "@/lib/chunked-upload";
+import {
+  BULK_UPLOAD_MAX_VIDEOS,
+  TITLE_MAX_LENGTH,
+  validateDescription,
+  validatePublishAt,
+  validateTagList,
+  validateTitle,
+  validateUploadFile,
+} from "@/lib/validation";
+import { VideoStatus } from "@/lib/constants";
+import PublishStatusFields, { STATUS_LABELS } from "./PublishStatusFields";
+
+// "dance, #music fun" -> ["dance", "#music", "fun"]
+const splitTags = (tags: string) => tags.split(/[\s,]+/).filter(Boolean);
+
+const MAX_CONCURRENT_UPLOADS = 2; // more parallel uploads only split the same bandwidth
+
+// "queued": waiting for a free upload slot; "invalid": rejected before uploading (wrong type, too large)
+type ItemState = "queued" | "invalid" | UploadState;
+
+type ItemDetails = {
+  title: string;
+  description: string;
+  tags: string;
+  status: VideoStatus;
+  publishAt: string;
+};
+
+type BulkItem = ItemDetails & {
+  id: string;
+  file: File;
+  state: ItemState;
+  loaded: number;
+  error: string | null;
+  fieldErrors: Record<string, string>;
+  result: UploadResult | null;
+  videoId: string | null; // set once the video is created
+};
+
+const ACTIVE_STATES: ItemState[] = ["uploading", "retrying", "finalizing"];
+
+const STATE_LABELS: Record<ItemState, string> = {
+  queued: "Waiting...",
+  invalid: "Can't be uploaded",
+  uploading: "Uploading...",
+  paused: "Paused",
+  retrying: "Connection problem, retrying...",
+  finalizing: "Processing...",
+  done: "Uploaded",
+  error: "Upload failed",
+  cancelled: "Cancelled",
+};
+
+// "My holiday clip.mp4" -> "My holiday clip"
+function titleFromFileName(name: string) {
+  return name.replace(/\.[^.]+$/, "").slice(0, TITLE_MAX_LENGTH);
+}
+
+// the same checks as POST /api/videos/bulk, so mistakes show before anything is sent
+function validateDetails(item: ItemDetails) {
+  const errors: Record<string, string> = {};
+  const checks = {
+    title: validateTitle(item.title),
+    description: validateDescription(item.description),
+    tags: validateTagList(splitTags(item.tags)),
+    publishAt: item.status === "scheduled" ? validatePublishAt(item.publishAt) : null,
+  };
+  for (const [field, message] of Object.entries(checks)) {
+    if (message) errors[field] = message;
+  }
+  return errors;
+}
+
+export default function BulkUploadForm() {
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const [defaults, setDefaults] = useState<Omit<ItemDetails, "title">>({
+    description: "",
+    tags: "",
+    status: "published",
+    publishAt: "",
+  });
+  const [publishing, setPublishing] = useState(false);
+  const uploadsRef = useRef(new Map<string, ChunkedUpload>());
+  const { showNotification } = useNotification();
+
+  const updateItem = useCallback((id: string, patch: Partial<BulkItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  // the queue: whenever an upload finishes (or files are added), start waiting ones until MAX_CONCURRENT_UPLOADS run
+  useEffect(() => {
+    const active = items.filter((item) => ACTIVE_STATES.includes(item.state)).length;
+    const waiting = items.filter((item) => item.state === "queued" && !uploadsRef.current.has(item.id));
+
+    for (const item of waiting.slice(0, Math.max(MAX_CONCURRENT_UPLOADS - active, 0))) {
+      const upload = new ChunkedUpload(item.file, "video", {
+        onProgress: (loaded) => updateItem(item.id, { loaded }),
+        onStateChange: (state, error) => updateItem(item.id, { state, error: error ?? null }),
+        onSuccess: (result) => updateItem(item.id, { result }),
+      });
+      uploadsRef.current.set(item.id, upload);
+      upload.start();
+    }
+  }, [items, updateItem]);
+
+  // leaving the page pauses the uploads; picking the same files again later resumes them (see lib/chunked-upload.ts)
+  useEffect(() => {
+    const uploads = uploadsRef.current;
+    return () => uploads.forEach((upload) => upload.pause());
+  }, []);
+
+  const handleFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = ""; // the same files can be picked again after removing them
+
+    const room = BULK_UPLOAD_MAX_VIDEOS - items.filter((item) => !item.videoId).length;
+    if (files.length > room) {
+      showNotification(`You can queue up to ${BULK_UPLOAD_MAX_VIDEOS} videos at a time`, "warning");
+    }
+
+    const added: BulkItem[] = files.slice(0, Math.max(room, 0)).map((file) => {
+      const fileError = validateUploadFile("video", file);
+      return {
+        ...defaults,
+        id: crypto.randomUUID(),
+        file,
+        title: titleFromFileName(file.name),
+        state: fileError ? "invalid" : "queued",
+        loaded: 0,
+        error: fileError,
+        fieldErrors: {},
+        result: null,
+        videoId: null,
+      };
+    });
+    setItems((current) => [...current, ...added]);
+  };
+
+  const handleRemove = (id: string) => {
+    uploadsRef.current.get(id)?.cancel(); // a finished upload is kept in the storage, cancel() leaves it alone
+    uploadsRef.current.delete(id);
+    setItems((current) => current.filter((item) => item.id !== id));
+  };
+
+  const applyDefaultsToAll = () => {
+    setItems((current) =>
+      current.map((item) => (item.videoId ? item : { ...item, ...defaults, fieldErrors: {} }))
+    );
+  };
+
+  const ready = items.filter((item) => item.result && !item.videoId);
+  const uploading = items.some((item) => item.state === "queued" || ACTIVE_STATES.includes(item.state));
+
+  const handlePublish = async () => {
+    // items with invalid details stay in the list with their errors, the others are sent
+    const checked = ready.map((item) => ({ item, fieldErrors: validateDetails(item) }));
+    for (const { item, fieldErrors } of checked) updateItem(item.id, { fieldErrors });
+    const valid = checked.filter(({ fieldErrors }) => Object.keys(fieldErrors).length === 0).map(({ item }) => item);
+    if (valid.length === 0) {
+      showNotification("Please fix the highlighted fields", "error");
+      return;
+    }
+
+    setPublishing(true);
+    try {
+      const { results, created, failed } = await apiClient.createVideos(
+        valid.map((item) => ({
+          title: item.title,
+          description: item.description,
+          tags: splitTags(item.tags),
+          uploadId: item.result!.uploadId,
+          thumbnailTime: 0, // the first frame, it can be changed later on the edit page
+          status: item.status,
+          publishAt: item.status === "scheduled" ? new Date(item.publishAt) : null,
+        }))
+      );
+
+      for (const result of results) {
+        const item = valid[result.index];
+        if (result.success) {
+          updateItem(item.id, { videoId: result.video._id!.toString(), fieldErrors: {}, error: null });
+        } else {
+          updateItem(item.id, { fieldErrors: result.fieldErrors ?? {}, error: result.error });
+        }
+      }
+
+      if (failed === 0 && valid.length === ready.length) {
+        showNotification(`${created} video${created === 1 ? "" : "s"} created!`, "success");
+      } else {
+        showNotification(`${created} created, ${ready.length - created} need changes`, "warning");
+      }
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to create videos"), "error");
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="card bg-base-200">
+        <div className="card-body space-y-2">
+          <h2 className="card-title text-lg">Defaults for new videos</h2>
+          <textarea
+            className="textarea textarea-bordered"
+            placeholder="Description"
+            value={defaults.description}
+            onChange={(e) => setDefaults({ ...defaults, description: e.target.value })}
+          />
+          <input
+            type="text"
+            className="input input-bordered"
+            placeholder="Tags: dance, music, #funny"
+            value={defaults.tags}
+            onChange={(e) => setDefaults({ ...defaults, tags: e.target.value })}
+          />
+          <PublishStatusFields
+            status={defaults.status}
+            publishAt={defaults.publishAt}
+            onStatusChange={(status) => setDefaults({ ...defaults, status })}
+            onPublishAtChange={(publishAt) => setDefaults({ ...defaults, publishAt })}
+          />
+          <div className="card-actions justify-end">
+            <button
+              type="button"
+              className="btn btn-sm btn-outline"
+              onClick={applyDefaultsToAll}
+              disabled={items.length === 0}
+            >
+              Apply to all
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="form-control">
+        <label className="label">Videos</label>
+        <input
+          type="file"
+          accept="video/*"
+          multiple
+          className="file-input file-input-bordered w-full"
+          onChange={handleFilesChange}
+        />
+        <span className="text-sm text-base-content/60 mt-1">
+          Up to {BULK_UPLOAD_MAX_VIDEOS} videos, {MAX_CONCURRENT_UPLOADS} upload at a time. New files get
+          the defaults above.
+        </span>
+      </div>
+
+      <div className="space-y-4">
+        {items.map((item) => {
+          const percent = Math.round((item.loaded / item.file.size) * 100);
+          const editable = !item.videoId && item.state !== "invalid";
+          return (
+            <div key={item.id} className="card bg-base-100 shadow">
+              <div className="card-body p-4 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate flex-1">{item.file.name}</span>
+                  {item.videoId ? (
+                    <Link href={`/videos/${item.videoId}`} className="badge badge-success gap-1">
+                      <CheckCircle2 className="w-3 h-3" />
+                      {STATUS_LABELS[item.status]}
+                    </Link>
+                  ) : (
+                    <span className={`text-sm ${item.state === "error" || item.state === "invalid" ? "text-error" : "text-base-content/60"}`}>
+                      {ACTIVE_STATES.includes(item.state) && <Loader2 className="w-3 h-3 animate-spin inline mr-1" />}
+                      {STATE_LABELS[item.state]}
+                    </span>
+                  )}
+                  {item.state === "error" && (
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => uploadsRef.current.get(item.id)?.resume()}
+                    >
+                      <RotateCcw className="w-3 h-3" /> Retry
+                    </button>
+                  )}
+                  {!item.videoId && (
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => handleRemove(item.id)}
+                      aria-label="Remove"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+
+                {item.state !== "invalid" && !item.videoId && (
+                  <progress className="progress progress-primary w-full" value={percent} max={100} />
+                )}
+                {item.error && <div className="text-error text-sm">{item.error}</div>}
+
+                {editable && (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      className={`input input-bordered input-sm w-full ${item.fieldErrors.title ? "input-error" : ""}`}
+                      placeholder="Title"
+                      value={item.title}
+                      onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                    />
+                    {item.fieldErrors.title && <span className="text-error text-sm">{item.fieldErrors.title}</span>}
+                    <textarea
+                      className={`textarea textarea-bordered textarea-sm w-full ${item.fieldErrors.description ? "textarea-error" : ""}`}
+                      placeholder="Description"
+                      value={item.description}
+                      onChange={(e) => updateItem(item.id, { description: e.target.value })}
+                    />
+                    {item.fieldErrors.description && (
+                      <span className="text-error text-sm">{item.fieldErrors.description}</span>
+                    )}
+                    <input
+                      type="text"
+                      className={`input input-bordered input-sm w-full ${item.fieldErrors.tags ? "input-error" : ""}`}
+                      placeholder="Tags"
+                      value={item.tags}
+                      onChange={(e) => updateItem(item.id, { tags: e.target.value })}
+                    />
+                    {item.fieldErrors.tags && <span className="text-error text-sm">{item.fieldErrors.tags}</span>}
+                    <PublishStatusFields
+                      status={item.status}
+                      publishAt={item.publishAt}
+                      onStatusChange={(status) => updateItem(item.id, { status })}
+                      onPublishAtChange={(publishAt) => updateItem(item.id, { publishAt })}
+                      error={item.fieldErrors.publishAt}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {items.length > 0 && (
+        <button
+          type="button"
+          className="btn btn-primary btn-block"
+          onClick={handlePublish}
+          disabled={publishing || ready.length === 0}
+        >
+          {publishing ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : uploading ? (
+            `Save ${ready.length} uploaded video${ready.length === 1 ? "" : "s"} (others still uploading)`
+          ) : (
+            `Save ${ready.length} video${ready.length === 1 ? "" : "s"}`
+          )}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/*
+Bulk upload: several videos at once, each with its own title, description, tags and visibility.
+Queue:
+Picked files start as "queued"; the effect on items starts them as ChunkedUploads (lib/chunked-upload.ts), at most MAX_CONCURRENT_UPLOADS at a time, and the next one whenever one finishes or fails.
+Each file shows its own progress bar and error. Failed uploads can be retried, files of the wrong type or size are marked "invalid" and never sent.
+Details:
+New files take the defaults card (description, tags, visibility) and a title from their file name. "Apply to all" copies the defaults onto every video not created yet.
+Saving:
+The uploaded files go to POST /api/videos/bulk in one request; the thumbnail is the first frame (change it on the edit page).
+The details are checked with the same rules as the server first. The server answers per item: created ones link to their video, the others keep their fields and errors so they can be fixed and saved again.
+*/
@@ -0,0 +1,226 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Loader2, Trash2 } from "lucide-react";
+import { useNotification } from "./Notification";
+import ReportButton from "./ReportButton";
+import { apiClient, getApiErrorMessage, VideoComment } from "@/lib/api-client";
+import { COMMENT_MAX_LENGTH } from "@/lib/constants";
+
+interface CommentFormProps {
+  placeholder: string;
+  onSubmit: (body: string) => Promise<void>;
+}
+
+function CommentForm({ placeholder, onSubmit }: CommentFormProps) {
+  const [body, setBody] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit(body);
+      setBody("");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <input
+        type="text"
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={COMMENT_MAX_LENGTH}
+        className="input input-bordered input-sm flex-1"
+      />
+      <button
+        type="submit"
+        className="btn btn-primary btn-sm"
+        disabled={submitting || !body.trim()}
+      >
+        {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Post"}
+      </button>
+    </form>
+  );
+}
+
+export default function CommentSection({ videoId }: { videoId: string }) {
+  const { data: session } = useSession();
+  const { showNotification } = useNotification();
+  const [comments, setComments] = useState<VideoComment[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const fetchComments = useCallback(
+    async (cursor: string | null) => {
+      setLoading(true);
+      try {
+        const data = await apiClient.getComments(videoId, cursor);
+        setComments((current) =>
+          cursor ? [...current, ...data.comments] : data.comments
+        );
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error("Error fetching comments:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [videoId]
+  );
+
+  useEffect(() => {
+    fetchComments(null);
+  }, [fetchComments]);
+
+  const handleAdd = async (body: string, parentId?: string) => {
+    try {
+      const comment = await apiClient.addComment(videoId, body, parentId);
+      setComments((current) =>
+        parentId
+          ? current.map((c) =>
+              c._id === parentId ? { ...c, replies: [...c.replies, comment] } : c
+            )
+          : [comment, ...current]
+      );
+      setReplyingTo(null);
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to post comment"), "error");
+      throw error; // keeps the text in the form so it can be retried
+    }
+  };
+
+  const handleDelete = async (comment: VideoComment) => {
+    if (!confirm("Delete this comment?")) return;
+
+    try {
+      await apiClient.deleteComment(videoId, comment._id);
+      setComments((current) =>
+        comment.parent
+          ? current.map((c) =>
+              c._id === comment.parent
+                ? { ...c, replies: c.replies.filter((r) => r._id !== comment._id) }
+                : c
+            )
+          : current.filter((c) => c._id !== comment._id)
+      );
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to delete comment"), "error");
+    }
+  };
+
+  const renderComment = (comment: VideoComment) => (
+    <div className="flex items-start justify-between gap-2">
+      <div>
+        {comment.author?.username ? (
+          <Link
+            href={`/u/${comment.author.username}`}
+            className="font-semibold text-sm hover:underline"
+          >
+            {comment.author.name}
+          </Link>
+        ) : (
+          <span className="font-semibold text-sm">
+            {comment.author?.name ?? "deleted user"}
+          </span>
+        )}{" "}
+        <span className="text-xs text-base-content/50">
+          {new Date(comment.createdAt).toLocaleDateString()}
+        </span>
+        <p className="text-sm whitespace-pre-line">{comment.body}</p>
+      </div>
+      {session?.user.id === comment.author?._id ? (
+        <button
+          onClick={() => handleDelete(comment)}
+          className="btn btn-ghost btn-xs text-error"
+          aria-label="Delete comment"
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      ) : (
+        <ReportButton targetType="comment" targetId={comment._id} compact />
+      )}
+    </div>
+  );
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-lg font-bold">Comments</h2>
+
+      {session ? (
+        <CommentForm
+          placeholder="Add a comment..."
+          onSubmit={(body) => handleAdd(body)}
+        />
+      ) : (
+        <p className="text-sm text-base-content/70">
+          <Link href="/login" className="link">
+            Sign in
+          </Link>{" "}
+          to join the conversation
+        </p>
+      )}
+
+      <ul className="space-y-4">
+        {comments.map((comment) => (
+          <li key={comment._id} className="space-y-2">
+            {renderComment(comment)}
+
+            {comment.replies.length > 0 && (
+              <ul className="ml-6 space-y-2 border-l border-base-300 pl-3">
+                {comment.replies.map((reply) => (
+                  <li key={reply._id}>{renderComment(reply)}</li>
+                ))}
+              </ul>
+            )}
+
+            {session &&
+              (replyingTo === comment._id ? (
+                <div className="ml-6">
+                  <CommentForm
+                    placeholder="Write a reply..."
+                    onSubmit={(body) => handleAdd(body, comment._id)}
+                  />
+                </div>
+              ) : (
+                <button
+                  onClick={() => setReplyingTo(comment._id)}
+                  className="btn btn-link btn-xs ml-4"
+                >
+                  Reply
+                </button>
+              ))}
+          </li>
+        ))}
+      </ul>
+
+      {loading && (
+        <div className="flex justify-center">
+          <Loader2 className="w-5 h-5 animate-spin" />
+        </div>
+      )}
+
+      {!loading && comments.length === 0 && (
+        <p className="text-sm text-base-content/70">No comments yet</p>
+      )}
+
+      {!loading && nextCursor && (
+        <button
+          onClick={() => fetchComments(nextCursor)}
+          className="btn btn-ghost btn-sm btn-block"
+        >
+          Load more comments
+        </button>
+      )}
+    </section>
+  );
+}
@@ -1,25 +1,27 @@
 "use client";
 
-import { IKUpload } from "imagekitio-next";
-import { IKUploadResponse } from "imagekitio-next/dist/types/components/IKUpload/props";
-import { useState } from "react";
-import { Loader2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Pause, Play, RotateCcw, X } from "lucide-react";
+import { UploadResult } from "@/lib/api-client";
+import { ChunkedUpload, getPendingUploads, PendingUpload, UploadState } from "@/lib/chunked-upload";
+import { validateUploadFile } from "@/lib/validation";
 
 /*
 "use client";: Marks this as a client component, enabling React hooks and browser APIs.
-IKUpload: The main upload component from the ImageKit React SDK, which handles direct uploads to ImageKit from the browser.
-IKUploadResponse: Type definition for the response returned by a successful upload.
-useState: React hook for managing local component state.
-Loader2: An animated spinner icon from the Lucide icon set, used for upload progress indication.
+ChunkedUpload: Sends the file to our own /api/uploads routes in chunks, with pause, resume and automatic retries (see lib/chunked-upload.ts).
+getPendingUploads: Lists uploads that were interrupted (e.g. by a page reload) and can be resumed by picking the same file again.
+UploadResult: Type definition for the result of a finished upload ({ uploadId, fileId, filePath, url, thumbnailUrl }).
+validateUploadFile: The same type and size rules the server checks, so a wrong file is rejected before a single byte is sent.
+Loader2, Pause, Play, RotateCcw, X: Icons from the Lucide icon set for the upload controls.
 */
 
 interface FileUploadProps {
-  onSuccess: (res: IKUploadResponse) => void;
+  onSuccess: (res: UploadResult) => void;
   onProgress?: (progress: number) => void;
   fileType?: "image" | "video";
 }
 /*
-onSuccess: Callback function called when an upload succeeds, receives the upload response.
+onSuccess: Callback function called when an upload succeeds, receives the upload result.
 onProgress: Optional callback for upload progress, receives a percentage.
 fileType: Optional, determines if the upload is for an image or video (defaults to "image").
 
@@ -27,137 +29,162 @@ Purpose
 This interface defines the props (inputs) that the FileUpload React component expects to receive from its parent component.
 
 Properties
-onSuccess: (res: IKUploadResponse) => void
+onSuccess: (res: UploadResult) => void
 
 Required.
 A callback function that is called when a file upload completes successfully.
-Receives the upload response (res) from ImageKit, which contains details about the uploaded file (like URL, fileId, etc.).
+Receives the upload result (res), which contains details about the stored file (filePath, fileId, url).
 Usage: The parent component can use this to update state, show a success message, or store the uploaded file’s info.
 onProgress?: (progress: number) => void
 
 Optional.
 A callback function that is called during the upload process to report progress.
 Receives a number (progress) representing the percentage of the upload completed (0–100).
-Usage: The parent can use this to show a progress bar or spinner.
+Usage: The parent can use this to show its own progress indicator; the component already shows a progress bar.
 fileType?: "image" | "video"
 
 Optional.
 Specifies whether the upload is for an image or a video.
 Defaults to "image" if not provided.
 Usage: The component uses this to validate the file type, set accepted file extensions, and choose the upload folder.
-Why Use This Interface?
-Type safety: Ensures the parent component provides the correct props.
-Flexibility: Allows the FileUpload component to be reused for both images and videos, and to notify the parent about upload events.
-Clarity: Makes it clear what the component expects and how it communicates with its parent.
-
 */
 
+const STATE_LABELS: Partial<Record<UploadState, string>> = {
+  uploading: "Uploading...",
+  paused: "Paused",
+  retrying: "Connection problem, retrying...",
+  finalizing: "Processing...",
+  done: "Upload complete",
+};
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
 export default function FileUpload({
   onSuccess,
   onProgress,
   fileType = "image", // by default
 }: FileUploadProps) {
-  const [uploading, setUploading] = useState(false);
+  const [state, setState] = useState<UploadState | null>(null);
+  const [bytes, setBytes] = useState({ loaded: 0, total: 0 });
   const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingUpload[]>([]);
+  const uploadRef = useRef<ChunkedUpload | null>(null);
+
+  // the callbacks of the parent may change on every render, the upload keeps the latest ones
+  const callbacksRef = useRef({ onSuccess, onProgress });
+  callbacksRef.current = { onSuccess, onProgress };
+
+  useEffect(() => {
+    setPending(getPendingUploads(fileType));
+    // leaving the page mid-upload pauses it; the saved session lets it continue later
+    return () => uploadRef.current?.pause();
+  }, [fileType]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const validationError = validateUploadFile(fileType, file);
+    if (validationError) {
+      setError(validationError);
+      event.target.value = "";
+      return;
+    }
 
-  const onError = (err: { message: string }) => {
-    setError(err.message);
-    setUploading(false);
-  };
-
-  const handleSuccess = (response: IKUploadResponse) => {
-    console.log("Success", response)
-    setUploading(false);
-    setError(null);
-    onSuccess(response);
-  };
-
-  const handleStartUpload = () => {
-    setUploading(true);
+    uploadRef.current?.cancel(); // a new file replaces the one being uploaded
     setError(null);
-  };
-
-  const handleProgress = (evt: ProgressEvent) => {
-    if (evt.lengthComputable && onProgress) {
-      const percentComplete = (evt.loaded / evt.total) * 100;
-      onProgress(Math.round(percentComplete));
-    }
+    setBytes({ loaded: 0, total: file.size });
+
+    const upload = new ChunkedUpload(file, fileType, {
+      onProgress: (loaded, total) => {
+        setBytes({ loaded, total });
+        callbacksRef.current.onProgress?.(Math.round((loaded / total) * 100));
+      },
+      onStateChange: (newState, message) => {
+        setState(newState);
+        setError(message ?? null);
+        if (newState === "done" || newState === "cancelled") setPending(getPendingUploads(fileType));
+      },
+      onSuccess: (result) => callbacksRef.current.onSuccess(result),
+    });
+    uploadRef.current = upload;
+    upload.start();
   };
 
   /*
   Function Purpose
 
-This function is called during the file upload process to track and report the progress of the upload.
-It receives a ProgressEvent object (evt) from the browser or the upload library.
-evt.lengthComputable
-
-Checks if the total size of the upload is known and can be measured.
-If lengthComputable is false, you can't reliably calculate progress, so the function does nothing.
-onProgress
-
-Checks if the parent component provided an onProgress callback prop.
-If not provided, progress updates are ignored.
-Calculating Progress
-
-evt.loaded is the number of bytes uploaded so far.
-evt.total is the total number of bytes to upload.
-(evt.loaded / evt.total) * 100 calculates the percentage of the upload that is complete.
-Rounding and Reporting
-
-Math.round(percentComplete) rounds the percentage to the nearest whole number for cleaner UI display.
-onProgress(...) calls the parent’s callback with the current progress percentage.
-Behind the Scenes in the Project
-User Experience:
-As the file uploads, this function enables you to show a progress bar or spinner, giving users real-time feedback.
-Reusability:
-By using a callback, any parent component can decide how to display or use the progress information (e.g., progress bar, percentage text, etc.).
-Integration:
-This is triggered by the IKUpload component from ImageKit, which emits progress events as the file uploads.
+Called when the user picks a file. Checks it with validateUploadFile first, so a wrong type or a too large file is rejected right away.
+Then a ChunkedUpload takes over: it reports progress in bytes (shown as "12.5 MB / 80.0 MB" and passed to the parent as a percentage), state changes (uploading, paused, retrying...) and the final result.
+If the same file was partly uploaded before (e.g. the tab was closed), ChunkedUpload finds its saved session and continues from there instead of starting over.
   */
 
-  const validateFile = (file: File) => {
-    if (fileType === "video") {
-      if (!file.type.startsWith("video/")) {
-        setError("Please upload a valid video file");
-        return false;
-      }
-      if (file.size > 100 * 1024 * 1024) {
-        setError("Video size must be less than 100MB");
-        return false;
-      }
-    } else {
-      const validTypes = ["image/jpeg", "image/png", "image/webp"];
-      if (!validTypes.includes(file.type)) {
-        setError("Please upload a valid image file (JPEG, PNG, or WebP)");
-        return false;
-      }
-      if (file.size > 5 * 1024 * 1024) {
-        setError("File size must be less than 5MB");
-        return false;
-      }
-    }
-    return true;
+  const handleCancel = async () => {
+    await uploadRef.current?.cancel();
+    uploadRef.current = null;
+    setState(null);
+    setBytes({ loaded: 0, total: 0 });
+    callbacksRef.current.onProgress?.(0);
   };
 
+  const active = state === "uploading" || state === "retrying" || state === "finalizing";
+  const percent = bytes.total ? Math.round((bytes.loaded / bytes.total) * 100) : 0;
+
   return (
     <div className="space-y-2">
-      <IKUpload
-        fileName={fileType === "video" ? "video" : "image"}
-        onError={onError}
-        onSuccess={handleSuccess}
-        onUploadStart={handleStartUpload}
-        onUploadProgress={handleProgress}
+      <input
+        type="file"
         accept={fileType === "video" ? "video/*" : "image/*"}
         className="file-input file-input-bordered w-full"
-        validateFile={validateFile}
-        useUniqueFileName={true}
-        folder={fileType === "video" ? "/videos" : "/images"}
+        onChange={handleFileChange}
+        disabled={active}
       />
 
-      {uploading && (
-        <div className="flex items-center gap-2 text-sm text-primary">
-          <Loader2 className="w-4 h-4 animate-spin" />
-          <span>Uploading...</span>
+      {!state && pending.length > 0 && (
+        <div className="text-sm text-base-content/70">
+          Unfinished upload{pending.length > 1 ? "s" : ""}:{" "}
+          {pending.map((upload) => upload.fileName).join(", ")}. Choose the same file to continue
+          where it stopped.
+        </div>
+      )}
+
+      {state && state !== "cancelled" && (
+        <div className="space-y-1">
+          <progress className="progress progress-primary w-full" value={percent} max={100} />
+          <div className="flex items-center gap-2 text-sm">
+            {active && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+            <span className={state === "error" ? "text-error" : "text-base-content/70"}>
+              {state === "error" ? "Upload failed" : STATE_LABELS[state]}
+            </span>
+            <span className="text-base-content/60">
+              {formatMegabytes(bytes.loaded)} / {formatMegabytes(bytes.total)}
+            </span>
+
+            <div className="ml-auto flex gap-1">
+              {(state === "uploading" || state === "retrying") && (
+                <button type="button" className="btn btn-ghost btn-xs" onClick={() => uploadRef.current?.pause()}>
+                  <Pause className="w-3 h-3" /> Pause
+                </button>
+              )}
+              {state === "paused" && (
+                <button type="button" className="btn btn-ghost btn-xs" onClick={() => uploadRef.current?.resume()}>
+                  <Play className="w-3 h-3" /> Resume
+                </button>
+              )}
+              {state === "error" && (
+                <button type="button" className="btn btn-ghost btn-xs" onClick={() => uploadRef.current?.resume()}>
+                  <RotateCcw className="w-3 h-3" /> Retry
+                </button>
+              )}
+              {state !== "done" && state !== "finalizing" && (
+                <button type="button" className="btn btn-ghost btn-xs" onClick={handleCancel}>
+                  <X className="w-3 h-3" /> Cancel
+                </button>
+              )}
+            </div>
+          </div>
         </div>
       )}
 
@@ -168,12 +195,12 @@ This is triggered by the IKUpload component from ImageKit, which emits progress
 
 /*
 Behind the Scenes & Project Integration
-ImageKitProvider Context:
-This component is used inside a context provided by ImageKitProvider (see Providers.tsx), which handles authentication and configuration for uploads.
-Secure Uploads:
-When a user selects a file, IKUpload uses the authenticator function (from your backend) to get secure upload credentials, ensuring your private key is never exposed.
-User Feedback:
-The component provides instant feedback for upload progress and errors, improving user experience.
+Chunked Uploads:
+The file goes to our own API (/api/uploads) in 5 MB chunks instead of straight to ImageKit in one request. Our server assembles it and hands it to the storage, so the private key never leaves the server.
+Resilience:
+A dropped connection only loses the current chunk: it's retried with growing pauses, and after too many failures the Retry button continues from the last chunk the server got.
+Pause / Resume / Cancel:
+Pause stops after aborting the chunk in flight, Resume asks the server where it stopped. Cancel throws the partial upload away. Leaving the page pauses the upload; picking the same file again later resumes it.
 Reusable:
 Can be used for both images and videos, with customizable callbacks for success and progress.
- */
\ No newline at end of file
+ */
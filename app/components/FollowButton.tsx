@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { useNotification } from "./Notification";
+import { apiClient, getApiErrorMessage } from "@/lib/api-client";
+
+interface FollowButtonProps {
+  userId: string;
+  initialFollowing?: boolean;
+  onChange?: (followerCount: number) => void;
+}
+
+export default function FollowButton({
+  userId,
+  initialFollowing = false,
+  onChange,
+}: FollowButtonProps) {
+  const { data: session } = useSession();
+  const { showNotification } = useNotification();
+  const [following, setFollowing] = useState(initialFollowing);
+  const [pending, setPending] = useState(false);
+
+  if (session?.user.id === userId) return null; // no follow button on your own profile
+
+  const handleClick = async () => {
+    if (!session) {
+      showNotification("Please sign in to follow creators", "info");
+      return;
+    }
+
+    setPending(true);
+    try {
+      const result = following
+        ? await apiClient.unfollowUser(userId)
+        : await apiClient.followUser(userId);
+      setFollowing(result.following);
+      onChange?.(result.followerCount);
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to update follow"), "error");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={pending}
+      className={`btn btn-sm ${following ? "btn-outline" : "btn-primary"}`}
+    >
+      {following ? "Following" : "Follow"}
+    </button>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import Avatar from "./Avatar";
+import { apiClient, UserSummary } from "@/lib/api-client";
+
+interface FollowListProps {
+  userId: string;
+  type: "followers" | "following";
+}
+
+export default function FollowList({ userId, type }: FollowListProps) {
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchUsers = useCallback(
+    async (cursor: string | null) => {
+      setLoading(true);
+      try {
+        const data =
+          type === "followers"
+            ? await apiClient.getFollowers(userId, cursor)
+            : await apiClient.getFollowing(userId, cursor);
+        setUsers((current) => (cursor ? [...current, ...data.users] : data.users));
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error(`Error fetching ${type}:`, error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [userId, type]
+  );
+
+  useEffect(() => {
+    fetchUsers(null);
+  }, [fetchUsers]);
+
+  return (
+    <div className="space-y-2">
+      {users.map((user) => (
+        <Link
+          key={user._id}
+          href={user.username ? `/u/${user.username}` : "#"}
+          className="flex items-center gap-3 p-2 rounded hover:bg-base-200"
+        >
+          <Avatar avatarUrl={user.avatarUrl} username={user.username} size={32} />
+          <span>@{user.username ?? "unknown"}</span>
+        </Link>
+      ))}
+
+      {loading && <Loader2 className="w-5 h-5 animate-spin mx-auto" />}
+
+      {!loading && users.length === 0 && (
+        <p className="text-sm text-base-content/70">Nobody here yet</p>
+      )}
+
+      {!loading && nextCursor && (
+        <button
+          onClick={() => fetchUsers(nextCursor)}
+          className="btn btn-ghost btn-sm btn-block"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,18 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useSession, signOut } from "next-auth/react";
-import { Home, User } from "lucide-react";
+import { Home, Search, User } from "lucide-react";
 import { useNotification } from "./Notification";
+import { canModerate } from "@/lib/roles";
 
 export default function Header() {
   const { data: session } = useSession();
   const { showNotification } = useNotification();
+  const router = useRouter();
+  const [query, setQuery] = useState("");
 
   const handleSignOut = async () => {
     try {
@@ -18,6 +23,12 @@ export default function Header() {
     }
   };
 
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const q = query.trim();
+    if (q) router.push(`/search?q=${encodeURIComponent(q)}`);
+  };
+
   return (
     <div className="navbar bg-base-300 sticky top-0 z-40">
       <div className="container mx-auto">
@@ -36,6 +47,17 @@ export default function Header() {
         </div>
         <div className="flex flex-1 justify-end px-2">
           <div className="flex items-stretch gap-2">
+            <form onSubmit={handleSearch} className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 opacity-50" />
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search reels"
+                aria-label="Search reels"
+                className="input input-bordered input-sm h-full pl-9 w-40 md:w-64"
+              />
+            </form>
             <div className="dropdown dropdown-end">
               <div
                 tabIndex={0}
@@ -51,9 +73,18 @@ export default function Header() {
                 {session ? (
                   <>
                     <li className="px-4 py-1">
-                      <span className="text-sm opacity-70">
-                        {session.user?.email?.split("@")[0]}
-                      </span>
+                      {session.user?.username ? (
+                        <Link
+                          href={`/u/${session.user.username}`}
+                          className="text-sm opacity-70 hover:underline"
+                        >
+                          @{session.user.username}
+                        </Link>
+                      ) : (
+                        <span className="text-sm opacity-70">
+                          {session.user?.email?.split("@")[0]}
+                        </span>
+                      )}
                     </li>
                     <div className="divider my-1"></div>
 
@@ -61,14 +92,52 @@ export default function Header() {
                       <Link
                         href="/upload"
                         className="px-4 py-2 hover:bg-base-200 block w-full"
-                        onClick={() =>
-                          showNotification("Welcome to Admin Dashboard", "info")
-                        }
                       >
                         Video Upload
                       </Link>
                     </li>
 
+                    {canModerate(session.user?.role) && (
+                      <li>
+                        <Link
+                          href="/admin"
+                          className="px-4 py-2 hover:bg-base-200 block w-full"
+                          onClick={() =>
+                            showNotification("Welcome to Admin Dashboard", "info")
+                          }
+                        >
+                          Admin Dashboard
+                        </Link>
+                      </li>
+                    )}
+
+                    <li>
+                      <Link
+                        href="/profile"
+                        className="px-4 py-2 hover:bg-base-200 block w-full"
+                      >
+                        Edit Profile
+                      </Link>
+                    </li>
+
+                    <li>
+                      <Link
+                        href="/me/videos"
+                        className="px-4 py-2 hover:bg-base-200 block w-full"
+                      >
+                        My Reels
+                      </Link>
+                    </li>
+
+                    <li>
+                      <Link
+                        href="/settings"
+                        className="px-4 py-2 hover:bg-base-200 block w-full"
+                      >
+                        Settings
+                      </Link>
+                    </li>
+
                     <li>
                       <button
                         onClick={handleSignOut}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { Heart } from "lucide-react";
+import { useNotification } from "./Notification";
+import { apiClient } from "@/lib/api-client";
+
+interface LikeButtonProps {
+  videoId: string;
+  initialLiked?: boolean;
+  initialCount?: number;
+}
+
+export default function LikeButton({
+  videoId,
+  initialLiked = false,
+  initialCount = 0,
+}: LikeButtonProps) {
+  const { data: session } = useSession();
+  const { showNotification } = useNotification();
+  const [liked, setLiked] = useState(initialLiked);
+  const [likeCount, setLikeCount] = useState(initialCount);
+  const [pending, setPending] = useState(false);
+
+  const handleClick = async () => {
+    if (!session) {
+      showNotification("Please sign in to like videos", "info");
+      return;
+    }
+    if (pending) return;
+
+    // optimistic update: flip the UI right away and roll back if the request fails
+    const previous = { liked, likeCount };
+    setLiked(!liked);
+    setLikeCount(likeCount + (liked ? -1 : 1));
+    setPending(true);
+
+    try {
+      const result = liked
+        ? await apiClient.unlikeVideo(videoId)
+        : await apiClient.likeVideo(videoId);
+      setLiked(result.liked); // the server has the final word on the count
+      setLikeCount(result.likeCount);
+    } catch {
+      setLiked(previous.liked);
+      setLikeCount(previous.likeCount);
+      showNotification("Failed to update like", "error");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      className="btn btn-ghost btn-sm gap-1 px-2"
+      aria-pressed={liked}
+      aria-label={liked ? "Unlike" : "Like"}
+    >
+      <Heart
+        className={`w-5 h-5 ${liked ? "fill-error text-error" : ""}`}
+      />
+      <span>{likeCount}</span>
+    </button>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ClientSafeProvider, getProviders, signIn } from "next-auth/react";
+import { Github } from "lucide-react";
+
+export default function OAuthButtons() {
+  const [providers, setProviders] = useState<ClientSafeProvider[]>([]);
+
+  useEffect(() => {
+    // only the providers configured on the server (lib/auth.ts), credentials has its own form
+    getProviders().then((all) =>
+      setProviders(Object.values(all ?? {}).filter((provider) => provider.type === "oauth"))
+    );
+  }, []);
+
+  if (providers.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {providers.map((provider) => (
+        <button
+          key={provider.id}
+          type="button"
+          onClick={() => signIn(provider.id, { callbackUrl: "/" })}
+          className="w-full border py-2 rounded hover:bg-base-200 flex items-center justify-center gap-2"
+        >
+          {provider.id === "github" && <Github className="w-4 h-4" />}
+          Continue with {provider.name}
+        </button>
+      ))}
+      <div className="divider text-sm">or</div>
+    </div>
+  );
+}
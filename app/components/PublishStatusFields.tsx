@@ -0,0 +1,76 @@
+"use client";
+
+import { VideoStatus } from "@/lib/constants";
+
+export const STATUS_LABELS: Record<VideoStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  published: "Published",
+  unlisted: "Unlisted",
+  private: "Private",
+};
+
+const STATUS_HINTS: Record<VideoStatus, string> = {
+  draft: "Only you can see it. Publish it later from My Reels.",
+  scheduled: "Goes public on its own at the date below.",
+  published: "Everyone can find it in the feed, search and your profile.",
+  unlisted: "Only people with the link can watch it.",
+  private: "Only you can see it.",
+};
+
+// Date -> "2026-10-19T14:30" in the viewer's timezone, the format of <input type="datetime-local">
+export function toDateTimeLocal(date: Date | string) {
+  const d = new Date(date);
+  const offsetMs = d.getTimezoneOffset() * 60 * 1000;
+  return new Date(d.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+interface PublishStatusFieldsProps {
+  status: VideoStatus;
+  publishAt: string; // datetime-local value, only used when scheduled
+  onStatusChange: (status: VideoStatus) => void;
+  onPublishAtChange: (publishAt: string) => void;
+  error?: string;
+}
+
+export default function PublishStatusFields({
+  status,
+  publishAt,
+  onStatusChange,
+  onPublishAtChange,
+  error,
+}: PublishStatusFieldsProps) {
+  return (
+    <div className="form-control">
+      <label className="label">Visibility</label>
+      <select
+        className="select select-bordered"
+        value={status}
+        onChange={(e) => onStatusChange(e.target.value as VideoStatus)}
+      >
+        {(Object.keys(STATUS_LABELS) as VideoStatus[]).map((value) => (
+          <option key={value} value={value}>
+            {STATUS_LABELS[value]}
+          </option>
+        ))}
+      </select>
+      <span className="text-sm text-base-content/60 mt-1">{STATUS_HINTS[status]}</span>
+
+      {status === "scheduled" && (
+        <input
+          type="datetime-local"
+          className={`input input-bordered mt-2 ${error ? "input-error" : ""}`}
+          value={publishAt}
+          min={toDateTimeLocal(new Date())}
+          onChange={(e) => onPublishAtChange(e.target.value)}
+        />
+      )}
+      {error && <span className="text-error text-sm mt-1">{error}</span>}
+    </div>
+  );
+}
+
+/*
+Status selector of the upload and edit forms, with a date picker for scheduled videos (see IVideo.status in models/Video.ts).
+The date picker works in the viewer's local time; the forms send it as a full ISO date (new Date(publishAt).toISOString()), so the server stores the right instant whatever its own timezone.
+*/
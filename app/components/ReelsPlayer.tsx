@@ -0,0 +1,166 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Volume2, VolumeX } from "lucide-react";
+import { mediaUrl } from "@/lib/media";
+import { posterUrl } from "@/lib/thumbnails";
+import { VIDEO_DIMENSIONS } from "@/lib/constants";
+import { IVideo } from "@/models/Video";
+
+const PRELOAD_AHEAD = 2; // how many reels after the visible one start buffering
+
+interface ReelsPlayerProps {
+  videos: IVideo[];
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+export default function ReelsPlayer({
+  videos,
+  hasMore = false,
+  onLoadMore,
+}: ReelsPlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const reelRefs = useRef<(HTMLElement | null)[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [muted, setMuted] = useState(true);
+
+  // the reel that is at least 60% on screen becomes the active one
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) {
+            setActiveIndex(Number((entry.target as HTMLElement).dataset.index));
+          }
+        });
+      },
+      { root: containerRef.current, threshold: 0.6 }
+    );
+
+    reelRefs.current.forEach((reel) => reel && observer.observe(reel));
+    return () => observer.disconnect();
+  }, [videos]);
+
+  // play the active reel, pause every other one and rewind it for the next time it comes into view
+  useEffect(() => {
+    reelRefs.current.forEach((reel, index) => {
+      const video = reel?.querySelector("video");
+      if (!video) return;
+
+      if (index === activeIndex) {
+        video.play().catch(() => {
+          // autoplay can still be refused (e.g. low power mode), the user can press play
+        });
+      } else if (!video.paused || video.currentTime > 0) {
+        video.pause();
+        video.currentTime = 0;
+      }
+    });
+  }, [activeIndex, videos]);
+
+  useEffect(() => {
+    if (hasMore && onLoadMore && activeIndex >= videos.length - PRELOAD_AHEAD) {
+      onLoadMore();
+    }
+  }, [activeIndex, videos.length, hasMore, onLoadMore]);
+
+  const goTo = useCallback(
+    (index: number) => {
+      const target = Math.max(0, Math.min(index, videos.length - 1));
+      reelRefs.current[target]?.scrollIntoView({ behavior: "smooth" });
+    },
+    [videos.length]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        goTo(activeIndex + 1);
+      } else if (e.key === "ArrowUp") {
+        e.preventDefault();
+        goTo(activeIndex - 1);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [activeIndex, goTo]);
+
+  if (videos.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-base-content/70">No videos found</p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed inset-x-0 bottom-0 top-16 z-30 bg-black overflow-y-scroll snap-y snap-mandatory overscroll-contain"
+    >
+      {videos.map((video, index) => (
+        <section
+          key={video._id?.toString()}
+          ref={(node) => {
+            reelRefs.current[index] = node;
+          }}
+          data-index={index}
+          className="relative h-full w-full snap-start snap-always flex items-center justify-center"
+        >
+          <div
+            className="relative h-full max-w-full"
+            style={{ aspectRatio: "9/16" }}
+          >
+            <video
+              src={mediaUrl(video.videoUrl, VIDEO_DIMENSIONS)}
+              poster={posterUrl(video)}
+              muted={muted}
+              loop
+              playsInline
+              preload={
+                index >= activeIndex && index <= activeIndex + PRELOAD_AHEAD
+                  ? "auto"
+                  : "none"
+              }
+              className="h-full w-full object-cover"
+            />
+
+            <div className="absolute inset-x-0 bottom-0 p-4 bg-gradient-to-t from-black/70 to-transparent text-white">
+              <Link href={`/videos/${video._id}`} className="font-bold">
+                {video.title}
+              </Link>
+              <p className="text-sm opacity-80 line-clamp-2">
+                {video.description}
+              </p>
+            </div>
+          </div>
+        </section>
+      ))}
+
+      <button
+        onClick={() => setMuted((current) => !current)}
+        className="fixed right-4 bottom-4 z-40 btn btn-circle btn-ghost text-white"
+        aria-label={muted ? "Unmute" : "Mute"}
+      >
+        {muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+      </button>
+    </div>
+  );
+}
+
+/*
+Full-screen vertical "Reels" player.
+Navigation:
+The container is a CSS scroll-snap list (snap-y snap-mandatory), so touch swipes and the mouse wheel are handled natively by the browser and always land on exactly one reel.
+ArrowUp / ArrowDown scroll the previous / next reel into view.
+Playback:
+An IntersectionObserver marks the reel that is at least 60% visible as active; only that one plays, every other reel is paused.
+Reels start muted because browsers only allow autoplay without sound; the button in the corner toggles sound for all of them.
+Preloading:
+The active reel and the next PRELOAD_AHEAD reels get preload="auto" so swiping forward starts instantly; the rest stay at preload="none" to save bandwidth.
+When the active reel gets within PRELOAD_AHEAD of the end, onLoadMore asks the parent for the next page.
+*/
@@ -0,0 +1,123 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { Flag, Loader2 } from "lucide-react";
+import { useNotification } from "./Notification";
+import { apiClient, getApiErrorMessage } from "@/lib/api-client";
+import {
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASONS,
+  ReportReason,
+  ReportTargetType,
+} from "@/lib/constants";
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam or misleading",
+  harassment: "Harassment or bullying",
+  hate: "Hate speech",
+  violence: "Violence or dangerous acts",
+  nudity: "Nudity or sexual content",
+  misinformation: "False information",
+  other: "Something else",
+};
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  compact?: boolean; // icon only, for comments
+}
+
+export default function ReportButton({ targetType, targetId, compact = false }: ReportButtonProps) {
+  const { data: session } = useSession();
+  const { showNotification } = useNotification();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const handleOpen = () => {
+    if (!session) {
+      showNotification("Please sign in to report content", "info");
+      return;
+    }
+    dialogRef.current?.showModal();
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!reason) {
+      showNotification("Please pick a reason", "error");
+      return;
+    }
+
+    setSending(true);
+    try {
+      const result = await apiClient.reportContent({
+        targetType,
+        targetId,
+        reason,
+        details: details.trim() || undefined,
+      });
+      showNotification(result.message, "success");
+      dialogRef.current?.close();
+      setReason("");
+      setDetails("");
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to send report"), "error");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleOpen}
+        className={compact ? "btn btn-ghost btn-xs" : "btn btn-sm btn-ghost gap-1"}
+        aria-label={`Report ${targetType}`}
+      >
+        <Flag className={compact ? "w-3 h-3" : "w-4 h-4"} />
+        {!compact && "Report"}
+      </button>
+
+      <dialog ref={dialogRef} className="modal">
+        <form onSubmit={handleSubmit} className="modal-box space-y-4">
+          <h3 className="font-bold text-lg">Report this {targetType}</h3>
+
+          <div className="space-y-2">
+            {REPORT_REASONS.map((value) => (
+              <label key={value} className="label cursor-pointer justify-start gap-2">
+                <input
+                  type="radio"
+                  name="reason"
+                  className="radio radio-sm"
+                  checked={reason === value}
+                  onChange={() => setReason(value)}
+                />
+                {REASON_LABELS[value]}
+              </label>
+            ))}
+          </div>
+
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            maxLength={REPORT_DETAILS_MAX_LENGTH}
+            placeholder="Anything the moderators should know? (optional)"
+            className="textarea textarea-bordered w-full"
+          />
+
+          <div className="modal-action">
+            <button type="button" className="btn btn-ghost" onClick={() => dialogRef.current?.close()}>
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-error" disabled={sending || !reason}>
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Send report"}
+            </button>
+          </div>
+        </form>
+      </dialog>
+    </>
+  );
+}
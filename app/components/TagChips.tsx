@@ -0,0 +1,19 @@
+import Link from "next/link";
+
+export default function TagChips({ tags }: { tags?: string[] }) {
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Link
+          key={tag}
+          href={`/tags/${encodeURIComponent(tag)}`}
+          className="badge badge-outline badge-sm hover:badge-primary"
+        >
+          #{tag}
+        </Link>
+      ))}
+    </div>
+  );
+}
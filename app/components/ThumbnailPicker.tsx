@@ -0,0 +1,144 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Film, ImageIcon } from "lucide-react";
+import { mediaUrl } from "@/lib/media";
+import { frameThumbnailPath, posterUrl } from "@/lib/thumbnails";
+import FileUpload from "./FileUpload";
+
+export type ThumbnailChoice = {
+  thumbnailUrl: string;
+  thumbnailTime: number | null;
+  coverUploadId?: string; // set for a newly uploaded cover, what the server takes to use it
+};
+
+interface ThumbnailPickerProps {
+  videoUrl: string;
+  value: ThumbnailChoice;
+  onChange: (choice: ThumbnailChoice) => void;
+}
+
+export default function ThumbnailPicker({ videoUrl, value, onChange }: ThumbnailPickerProps) {
+  const [mode, setMode] = useState<"frame" | "upload">(
+    value.thumbnailTime === null && value.thumbnailUrl ? "upload" : "frame"
+  );
+  const [duration, setDuration] = useState(0);
+  const [time, setTime] = useState(value.thumbnailTime ?? 0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const handleScrub = (seconds: number) => {
+    setTime(seconds);
+    if (videoRef.current) videoRef.current.currentTime = seconds; // shows the frame right away, no request to the storage
+  };
+
+  const preview = posterUrl({
+    videoUrl,
+    thumbnailUrl:
+      value.thumbnailTime !== null ? frameThumbnailPath(videoUrl, value.thumbnailTime) : value.thumbnailUrl,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div role="tablist" className="tabs tabs-boxed">
+        <button
+          type="button"
+          role="tab"
+          className={`tab gap-1 ${mode === "frame" ? "tab-active" : ""}`}
+          onClick={() => setMode("frame")}
+        >
+          <Film className="w-4 h-4" />
+          Pick a frame
+        </button>
+        <button
+          type="button"
+          role="tab"
+          className={`tab gap-1 ${mode === "upload" ? "tab-active" : ""}`}
+          onClick={() => setMode("upload")}
+        >
+          <ImageIcon className="w-4 h-4" />
+          Upload a cover
+        </button>
+      </div>
+
+      <div className="flex gap-4 items-start">
+        <div className="w-28 shrink-0 space-y-1">
+          {preview ? (
+            // eslint-disable-next-line @next/next/no-img-element -- the storage already serves a resized JPEG
+            <img
+              src={preview}
+              alt="Current thumbnail"
+              className="w-full rounded-lg object-cover bg-base-300"
+              style={{ aspectRatio: "9/16" }}
+            />
+          ) : (
+            // the local storage can't render frames (see lib/thumbnails.ts)
+            <div
+              className="w-full rounded-lg bg-base-300 flex items-center justify-center text-xs text-base-content/60 text-center p-2"
+              style={{ aspectRatio: "9/16" }}
+            >
+              Frame at {(value.thumbnailTime ?? 0).toFixed(1)}s
+            </div>
+          )}
+          <p className="text-xs text-center text-base-content/60">Current thumbnail</p>
+        </div>
+
+        {mode === "frame" ? (
+          <div className="flex-1 space-y-2">
+            <video
+              ref={videoRef}
+              src={mediaUrl(videoUrl)}
+              muted
+              playsInline
+              preload="metadata"
+              onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+              className="w-28 rounded-lg bg-base-300"
+              style={{ aspectRatio: "9/16" }}
+            />
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.1}
+              value={time}
+              onChange={(e) => handleScrub(Number(e.target.value))}
+              className="range range-sm"
+              disabled={!duration}
+            />
+            <button
+              type="button"
+              className="btn btn-sm btn-outline"
+              onClick={() =>
+                onChange({
+                  thumbnailUrl: frameThumbnailPath(videoUrl, time),
+                  thumbnailTime: time,
+                })
+              }
+            >
+              Use frame at {time.toFixed(1)}s
+            </button>
+          </div>
+        ) : (
+          <div className="flex-1">
+            <FileUpload
+              fileType="image"
+              onSuccess={(response) =>
+                onChange({
+                  thumbnailUrl: response.filePath,
+                  thumbnailTime: null,
+                  coverUploadId: response.uploadId,
+                })
+              }
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/*
+Lets a creator choose the thumbnail of a video (see lib/thumbnails.ts), used by the upload and edit forms.
+Pick a frame: the slider scrubs a muted copy of the uploaded video in the browser, "Use frame at ..." stores that second as thumbnailTime.
+The server turns thumbnailTime into the ImageKit frame URL itself (lib/validation.ts, PUT /api/videos/[id]), so the client can't point it elsewhere.
+Upload a cover: a JPEG, PNG or WebP image through FileUpload. The form sends its coverUploadId, the server checks it is the creator's own upload and deletes the image from the storage with the video.
+*/
@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { TrendingUp } from "lucide-react";
+import { apiClient, TrendingTag } from "@/lib/api-client";
+
+export default function TrendingTags() {
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        setTags(await apiClient.getTrendingTags());
+      } catch (error) {
+        console.error("Error fetching trending tags:", error);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <TrendingUp className="w-4 h-4 opacity-70" />
+      {tags.map(({ tag, count }) => (
+        <Link
+          key={tag}
+          href={`/tags/${encodeURIComponent(tag)}`}
+          className="badge badge-lg badge-ghost hover:badge-primary gap-1"
+        >
+          #{tag}
+          <span className="opacity-60 text-xs">{count}</span>
+        </Link>
+      ))}
+    </div>
+  );
+}
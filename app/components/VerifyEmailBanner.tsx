@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { MailWarning } from "lucide-react";
+import { useNotification } from "./Notification";
+import { apiClient, getApiErrorMessage } from "@/lib/api-client";
+
+export default function VerifyEmailBanner() {
+  const { data: session } = useSession();
+  const { showNotification } = useNotification();
+  const [sending, setSending] = useState(false);
+
+  if (!session || session.user.isVerified) return null;
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const result = await apiClient.resendVerificationEmail();
+      showNotification(result.message, "success");
+    } catch (error) {
+      showNotification(
+        getApiErrorMessage(error, "Failed to send verification email"),
+        "error"
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div role="alert" className="alert alert-warning mb-6">
+      <MailWarning className="w-5 h-5" />
+      <span>
+        Verify your email address to publish reels. Check your inbox for the link.
+      </span>
+      <button
+        onClick={handleResend}
+        disabled={sending}
+        className="btn btn-sm"
+      >
+        {sending ? "Sending..." : "Resend email"}
+      </button>
+    </div>
+  );
+}
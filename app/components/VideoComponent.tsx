@@ -1,8 +1,15 @@
-import { IKVideo } from "imagekitio-next";
 import Link from "next/link";
+import { mediaUrl } from "@/lib/media";
+import { posterUrl } from "@/lib/thumbnails";
+import { effectiveStatus } from "@/lib/video-visibility";
 import { IVideo } from "@/models/Video";
+import LikeButton from "./LikeButton";
+import { STATUS_LABELS } from "./PublishStatusFields";
+import TagChips from "./TagChips";
 
 export default function VideoComponent({ video }: { video: IVideo }) {
+  const status = effectiveStatus(video); // only owners ever get videos that aren't published
+  const poster = posterUrl(video);
   return (
     <div className="card bg-base-100 shadow hover:shadow-lg transition-all duration-300">
       <figure className="relative px-4 pt-4">
@@ -11,15 +18,11 @@ export default function VideoComponent({ video }: { video: IVideo }) {
             className="rounded-xl overflow-hidden relative w-full"
             style={{ aspectRatio: "9/16" }}
           >
-            <IKVideo
-              path={video.videoUrl}
-              transformation={[
-                {
-                  height: "1920",
-                  width: "1080",
-                },
-              ]}
+            <video
+              src={mediaUrl(video.videoUrl, { height: 1920, width: 1080 })}
               controls={video.controls}
+              poster={poster}
+              preload={poster ? "none" : "metadata"} // the poster is enough until someone plays it, without one the first frame is shown
               className="w-full h-full object-cover"
             />
           </div>
@@ -31,12 +34,33 @@ export default function VideoComponent({ video }: { video: IVideo }) {
           href={`/videos/${video._id}`}
           className="hover:opacity-80 transition-opacity"
         >
-          <h2 className="card-title text-lg">{video.title}</h2>
+          <h2 className="card-title text-lg">
+            {video.title}
+            {video.isHidden && ( // only the owner and admins ever get hidden videos
+              <span className="badge badge-warning badge-sm">Hidden</span>
+            )}
+            {status !== "published" && (
+              <span className="badge badge-ghost badge-sm">
+                {STATUS_LABELS[status]}
+                {status === "scheduled" && ` · ${new Date(video.publishAt!).toLocaleString()}`}
+              </span>
+            )}
+          </h2>
         </Link>
 
         <p className="text-sm text-base-content/70 line-clamp-2">
           {video.description}
         </p>
+
+        <TagChips tags={video.tags} />
+
+        <div className="card-actions justify-end">
+          <LikeButton
+            videoId={video._id!.toString()}
+            initialLiked={video.likedByMe}
+            initialCount={video.likeCount}
+          />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { Loader2 } from "lucide-react";
+import { useNotification } from "./Notification";
+import { apiClient, getApiErrorMessage, getApiFieldErrors } from "@/lib/api-client";
+import {
+  validateDescription,
+  validatePublishAt,
+  validateQuality,
+  validateTagList,
+  validateTitle,
+} from "@/lib/validation";
+import { effectiveStatus } from "@/lib/video-visibility";
+import { VideoStatus } from "@/lib/constants";
+import { IVideo } from "@/models/Video";
+import PublishStatusFields, { toDateTimeLocal } from "./PublishStatusFields";
+import ThumbnailPicker, { ThumbnailChoice } from "./ThumbnailPicker";
+
+const splitTags = (tags: string) => tags.split(/[\s,]+/).filter(Boolean);
+
+interface VideoEditFormData {
+  title: string;
+  description: string;
+  tags: string;
+  controls: boolean;
+  quality: number;
+  status: VideoStatus;
+  publishAt: string;
+}
+
+interface VideoEditFormProps {
+  video: IVideo;
+  onSaved: (video: IVideo) => void;
+}
+
+export default function VideoEditForm({ video, onSaved }: VideoEditFormProps) {
+  const [loading, setLoading] = useState(false);
+  const [thumbnail, setThumbnail] = useState<ThumbnailChoice>({
+    thumbnailUrl: video.thumbnailUrl,
+    thumbnailTime: video.thumbnailTime ?? null,
+  });
+  const { showNotification } = useNotification();
+
+  const {
+    register,
+    handleSubmit,
+    setError,
+    clearErrors,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<VideoEditFormData>({
+    defaultValues: {
+      title: video.title,
+      description: video.description,
+      tags: (video.tags ?? []).join(" "),
+      controls: video.controls ?? true,
+      quality: video.transformation?.quality ?? 100,
+      status: effectiveStatus(video), // a scheduled video that already went live shows as published
+      publishAt: video.publishAt ? toDateTimeLocal(video.publishAt) : "",
+    },
+  });
+
+  const onSubmit = async (data: VideoEditFormData) => {
+    if (data.status === "scheduled") {
+      const publishAtError = validatePublishAt(data.publishAt);
+      if (publishAtError) return setError("publishAt", { message: publishAtError });
+    }
+
+    setLoading(true);
+    try {
+      const updatedVideo = await apiClient.updateVideo(video._id!.toString(), {
+        title: data.title,
+        description: data.description,
+        tags: splitTags(data.tags),
+        // a frame is sent as its time only, the server builds its URL; a cover only when a new one was uploaded
+        ...(thumbnail.thumbnailTime !== null
+          ? { thumbnailTime: thumbnail.thumbnailTime }
+          : thumbnail.coverUploadId
+            ? { coverUploadId: thumbnail.coverUploadId }
+            : {}),
+        controls: data.controls,
+        transformation: { quality: data.quality },
+        status: data.status,
+        publishAt: data.status === "scheduled" ? new Date(data.publishAt) : null,
+      });
+      showNotification("Video updated successfully!", "success");
+      setThumbnail({ thumbnailUrl: updatedVideo.thumbnailUrl, thumbnailTime: updatedVideo.thumbnailTime ?? null });
+      onSaved(updatedVideo);
+    } catch (error) {
+      const fieldErrors = getApiFieldErrors(error);
+      for (const field of ["title", "description", "tags", "quality", "publishAt"] as const) {
+        if (fieldErrors[field]) setError(field, { message: fieldErrors[field] });
+      }
+      showNotification(getApiErrorMessage(error, "Failed to update video"), "error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <div className="form-control">
+        <label className="label">Title</label>
+        <input
+          type="text"
+          className={`input input-bordered ${
+            errors.title ? "input-error" : ""
+          }`}
+          {...register("title", {
+            validate: (value) => validateTitle(value) ?? true, // same rules as PUT /api/videos/[id]
+          })}
+        />
+        {errors.title && (
+          <span className="text-error text-sm mt-1">
+            {errors.title.message}
+          </span>
+        )}
+      </div>
+
+      <div className="form-control">
+        <label className="label">Description</label>
+        <textarea
+          className={`textarea textarea-bordered h-24 ${
+            errors.description ? "textarea-error" : ""
+          }`}
+          {...register("description", {
+            validate: (value) => validateDescription(value) ?? true,
+          })}
+        />
+        {errors.description && (
+          <span className="text-error text-sm mt-1">
+            {errors.description.message}
+          </span>
+        )}
+      </div>
+
+      <div className="form-control">
+        <label className="label">Tags</label>
+        <input
+          type="text"
+          className={`input input-bordered ${errors.tags ? "input-error" : ""}`}
+          {...register("tags", {
+            validate: (value) => validateTagList(splitTags(value)) ?? true,
+          })}
+        />
+        {errors.tags && (
+          <span className="text-error text-sm mt-1">{errors.tags.message}</span>
+        )}
+      </div>
+
+      <div className="form-control">
+        <label className="label">Thumbnail</label>
+        <ThumbnailPicker videoUrl={video.videoUrl} value={thumbnail} onChange={setThumbnail} />
+      </div>
+
+      <div className="form-control">
+        <label className="label">Quality (1-100)</label>
+        <input
+          type="number"
+          className={`input input-bordered ${
+            errors.quality ? "input-error" : ""
+          }`}
+          {...register("quality", {
+            valueAsNumber: true,
+            validate: (value) => validateQuality(value) ?? true,
+          })}
+        />
+        {errors.quality && (
+          <span className="text-error text-sm mt-1">
+            {errors.quality.message}
+          </span>
+        )}
+      </div>
+
+      <PublishStatusFields
+        status={watch("status")}
+        publishAt={watch("publishAt")}
+        onStatusChange={(value) => setValue("status", value)}
+        onPublishAtChange={(value) => {
+          setValue("publishAt", value);
+          clearErrors("publishAt");
+        }}
+        error={errors.publishAt?.message}
+      />
+
+      <label className="label cursor-pointer justify-start gap-2">
+        <input type="checkbox" className="checkbox" {...register("controls")} />
+        Show player controls
+      </label>
+
+      <button
+        type="submit"
+        className="btn btn-primary btn-block"
+        disabled={loading}
+      >
+        {loading ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          "Save Changes"
+        )}
+      </button>
+    </form>
+  );
+}
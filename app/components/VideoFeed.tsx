@@ -1,22 +1,69 @@
+"use client";
+
+import { useCallback, useRef } from "react";
+import { Loader2 } from "lucide-react";
 import { IVideo } from "@/models/Video";
 import VideoComponent from "./VideoComponent";
 
 interface VideoFeedProps {
   videos: IVideo[];
+  hasMore?: boolean;
+  loading?: boolean;
+  onLoadMore?: () => void;
 }
 
-export default function VideoFeed({ videos }: VideoFeedProps) {
+export default function VideoFeed({
+  videos,
+  hasMore = false,
+  loading = false,
+  onLoadMore,
+}: VideoFeedProps) {
+  const observer = useRef<IntersectionObserver | null>(null);
+
+  // attached to the last card: when it scrolls into view we ask the parent for the next page
+  const lastVideoRef = useCallback(
+    (node: HTMLDivElement | null) => {
+      observer.current?.disconnect();
+      if (!node || !hasMore || loading || !onLoadMore) return;
+
+      observer.current = new IntersectionObserver((entries) => {
+        if (entries[0].isIntersecting) onLoadMore();
+      });
+      observer.current.observe(node);
+    },
+    [hasMore, loading, onLoadMore]
+  );
+
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-      {videos.map((video) => (
-        <VideoComponent key={video._id?.toString()} video={video} />
+      {videos.map((video, index) => (
+        <div
+          key={video._id?.toString()}
+          ref={index === videos.length - 1 ? lastVideoRef : undefined}
+        >
+          <VideoComponent video={video} />
+        </div>
       ))}
 
-      {videos.length === 0 && (
+      {loading && (
+        <div className="col-span-full flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      )}
+
+      {!loading && videos.length === 0 && (
         <div className="col-span-full text-center py-12">
           <p className="text-base-content/70">No videos found</p>
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+/*
+Infinite scroll:
+The parent owns the list and the cursor; VideoFeed only reports when the user reached the end.
+A callback ref on the last card (re)creates an IntersectionObserver whenever the list, hasMore or loading changes.
+While a page is loading, or when there is nothing more to load, no observer is attached, so onLoadMore can't fire twice for the same page.
+Without onLoadMore (e.g. the "My reels" page) the feed is just a static grid.
+*/
@@ -2,70 +2,133 @@
 
 import { useState } from "react";
 import { useForm } from "react-hook-form";
-import { IKUploadResponse } from "imagekitio-next/dist/types/components/IKUpload/props";
 import { Loader2 } from "lucide-react";
 import { useNotification } from "./Notification";
-import { apiClient } from "@/lib/api-client";
+import { apiClient, getApiErrorMessage, getApiFieldErrors, UploadResult } from "@/lib/api-client";
+import {
+  validateDescription,
+  validatePublishAt,
+  validateTagList,
+  validateTitle,
+} from "@/lib/validation";
+import { VideoStatus } from "@/lib/constants";
 import FileUpload from "./FileUpload";
+import PublishStatusFields from "./PublishStatusFields";
+import ThumbnailPicker from "./ThumbnailPicker";
+
+// "dance, #music fun" -> ["dance", "#music", "fun"]
+const splitTags = (tags: string) => tags.split(/[\s,]+/).filter(Boolean);
 
 interface VideoFormData {
   title: string;
   description: string;
-  videoUrl: string;
+  tags: string;
+  uploadId: string;
+  videoUrl: string; // only for the thumbnail preview, the server takes the file from uploadId
   thumbnailUrl: string;
+  thumbnailTime: number | null;
+  coverUploadId: string;
+  status: VideoStatus;
+  publishAt: string;
 }
 
+const SUBMIT_LABELS: Record<VideoStatus, string> = {
+  draft: "Save Draft",
+  scheduled: "Schedule Video",
+  published: "Publish Video",
+  unlisted: "Publish Unlisted",
+  private: "Save Private Video",
+};
+
+const SUCCESS_MESSAGES: Record<VideoStatus, string> = {
+  draft: "Draft saved! Find it under My Reels.",
+  scheduled: "Video scheduled successfully!",
+  published: "Video published successfully!",
+  unlisted: "Video published! Share its link with whoever should see it.",
+  private: "Video saved as private!",
+};
+
 export default function VideoUploadForm() {
   const [loading, setLoading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadKey, setUploadKey] = useState(0); // changing it resets the file input after a submit
   const { showNotification } = useNotification();
 
   const {
     register,
     handleSubmit,
     setValue,
+    setError,
+    clearErrors,
+    watch,
     formState: { errors },
   } = useForm<VideoFormData>({
     defaultValues: {
       title: "",
       description: "",
+      tags: "",
+      uploadId: "",
       videoUrl: "",
       thumbnailUrl: "",
+      thumbnailTime: null,
+      coverUploadId: "",
+      status: "published",
+      publishAt: "",
     },
   });
+  const videoUrl = watch("videoUrl");
+  const status = watch("status");
 
-  const handleUploadSuccess = (response: IKUploadResponse) => {
+  const handleUploadSuccess = (response: UploadResult) => {
+    setValue("uploadId", response.uploadId);
     setValue("videoUrl", response.filePath);
-    setValue("thumbnailUrl", response.thumbnailUrl || response.filePath);
+    setValue("thumbnailTime", 0); // the first frame until the creator picks another one or uploads a cover
+    setValue("coverUploadId", "");
     showNotification("Video uploaded successfully!", "success");
   };
 
-  const handleUploadProgress = (progress: number) => {
-    setUploadProgress(progress);
-  };
-
   const onSubmit = async (data: VideoFormData) => {
-    if (!data.videoUrl) {
+    if (!data.uploadId) {
       showNotification("Please upload a video first", "error");
       return;
     }
+    if (data.status === "scheduled") {
+      const publishAtError = validatePublishAt(data.publishAt);
+      if (publishAtError) return setError("publishAt", { message: publishAtError });
+    }
 
     setLoading(true);
     try {
-      await apiClient.createVideo(data);
-      showNotification("Video published successfully!", "success");
+      await apiClient.createVideo({
+        title: data.title,
+        description: data.description,
+        uploadId: data.uploadId,
+        thumbnailTime: data.thumbnailTime,
+        coverUploadId: data.thumbnailTime === null ? data.coverUploadId : undefined,
+        tags: splitTags(data.tags),
+        status: data.status,
+        publishAt: data.status === "scheduled" ? new Date(data.publishAt) : null,
+      });
+      showNotification(SUCCESS_MESSAGES[data.status], "success");
 
       // Reset form after successful submission
       setValue("title", "");
       setValue("description", "");
+      setValue("tags", "");
+      setValue("uploadId", "");
       setValue("videoUrl", "");
       setValue("thumbnailUrl", "");
-      setUploadProgress(0);
+      setValue("thumbnailTime", null);
+      setValue("coverUploadId", "");
+      setValue("status", "published");
+      setValue("publishAt", "");
+      setUploadKey((key) => key + 1);
     } catch (error) {
-      showNotification(
-        error instanceof Error ? error.message : "Failed to publish video",
-        "error"
-      );
+      // a 400 from the API names the invalid fields, show them next to the inputs
+      const fieldErrors = getApiFieldErrors(error);
+      for (const field of ["title", "description", "tags", "publishAt"] as const) {
+        if (fieldErrors[field]) setError(field, { message: fieldErrors[field] });
+      }
+      showNotification(getApiErrorMessage(error, "Failed to publish video"), "error");
     } finally {
       setLoading(false);
     }
@@ -80,7 +143,9 @@ export default function VideoUploadForm() {
           className={`input input-bordered ${
             errors.title ? "input-error" : ""
           }`}
-          {...register("title", { required: "Title is required" })}
+          {...register("title", {
+            validate: (value) => validateTitle(value) ?? true, // same rules as POST /api/videos
+          })}
         />
         {errors.title && (
           <span className="text-error text-sm mt-1">
@@ -95,7 +160,9 @@ export default function VideoUploadForm() {
           className={`textarea textarea-bordered h-24 ${
             errors.description ? "textarea-error" : ""
           }`}
-          {...register("description", { required: "Description is required" })}
+          {...register("description", {
+            validate: (value) => validateDescription(value) ?? true,
+          })}
         />
         {errors.description && (
           <span className="text-error text-sm mt-1">
@@ -105,34 +172,71 @@ export default function VideoUploadForm() {
       </div>
 
       <div className="form-control">
-        <label className="label">Upload Video</label>
-        <FileUpload
-          fileType="video"
-          onSuccess={handleUploadSuccess}
-          onProgress={handleUploadProgress}
+        <label className="label">Tags</label>
+        <input
+          type="text"
+          placeholder="dance, music, #funny"
+          className={`input input-bordered ${errors.tags ? "input-error" : ""}`}
+          {...register("tags", {
+            validate: (value) => validateTagList(splitTags(value)) ?? true,
+          })}
         />
-        {uploadProgress > 0 && (
-          <div className="w-full bg-gray-200 rounded-full h-2.5 mt-2">
-            <div
-              className="bg-primary h-2.5 rounded-full transition-all duration-300"
-              style={{ width: `${uploadProgress}%` }}
-            />
-          </div>
+        {errors.tags && (
+          <span className="text-error text-sm mt-1">{errors.tags.message}</span>
         )}
+        <span className="text-sm text-base-content/60 mt-1">
+          Separate tags with spaces or commas. #hashtags in the description are added
+          automatically.
+        </span>
       </div>
 
+      <div className="form-control">
+        <label className="label">Upload Video</label>
+        <FileUpload key={uploadKey} fileType="video" onSuccess={handleUploadSuccess} />
+      </div>
+
+      {videoUrl && (
+        <div className="form-control">
+          <label className="label">Thumbnail</label>
+          <ThumbnailPicker
+            videoUrl={videoUrl}
+            value={{
+              thumbnailUrl: watch("thumbnailUrl"),
+              thumbnailTime: watch("thumbnailTime"),
+              coverUploadId: watch("coverUploadId"),
+            }}
+            onChange={(choice) => {
+              setValue("thumbnailUrl", choice.thumbnailUrl);
+              setValue("thumbnailTime", choice.thumbnailTime);
+              setValue("coverUploadId", choice.coverUploadId ?? "");
+            }}
+          />
+        </div>
+      )}
+
+      <PublishStatusFields
+        status={status}
+        publishAt={watch("publishAt")}
+        onStatusChange={(value) => setValue("status", value)}
+        onPublishAtChange={(value) => {
+          setValue("publishAt", value);
+          clearErrors("publishAt");
+        }}
+        error={errors.publishAt?.message}
+      />
+
       <button
         type="submit"
         className="btn btn-primary btn-block"
-        disabled={loading || !uploadProgress}
+        disabled={loading || !videoUrl}
       >
         {loading ? (
           <>
             <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-            Publishing Video...
+            Saving...
           </>
         ) : (
-          "Publish Video"
+          SUBMIT_LABELS[status]
         )}
       </button>
     </form>
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useNotification } from "../components/Notification";
+import { apiClient, getApiErrorMessage } from "@/lib/api-client";
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+  const { showNotification } = useNotification();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      await apiClient.requestPasswordReset(email);
+      setSent(true);
+    } catch (error) {
+      showNotification(
+        getApiErrorMessage(error, "Failed to request password reset"),
+        "error"
+      );
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto">
+      <h1 className="text-2xl font-bold mb-4">Forgot Password</h1>
+      {sent ? (
+        <p>
+          If an account exists for <strong>{email}</strong>, we sent it a link to
+          reset the password. The link expires in 1 hour.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="email" className="block mb-1">
+              Email
+            </label>
+            <input
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="w-full px-3 py-2 border rounded"
+            />
+          </div>
+          <button
+            type="submit"
+            className="w-full bg-blue-500 text-white py-2 rounded hover:bg-blue-600"
+          >
+            Send Reset Link
+          </button>
+        </form>
+      )}
+      <p className="text-center mt-4">
+        <Link href="/login" className="text-blue-500 hover:text-blue-600">
+          Back to login
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -1,14 +1,36 @@
 "use client";
 
 import { signIn } from "next-auth/react";
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useNotification } from "../components/Notification";
+import OAuthButtons from "../components/OAuthButtons";
 import Link from "next/link";
+import { TWO_FACTOR_REQUIRED } from "@/lib/auth-errors";
+
+// NextAuth sends failed OAuth logins back here as /login?error=<code>
+const OAUTH_ERROR_MESSAGES: Record<string, string> = {
+  OAuthEmailUnverified: "We couldn't get a verified email address from that provider",
+  OAuthTwoFactorEnabled: "This account uses two-factor authentication, please sign in with your email, password and code",
+  AccountSuspended: "This account has been suspended",
+};
+
+function OAuthError() {
+  const error = useSearchParams().get("error");
+  if (!error) return null;
+
+  return (
+    <div role="alert" className="alert alert-error mb-4">
+      <span>{OAUTH_ERROR_MESSAGES[error] ?? "Sign in failed, please try again"}</span>
+    </div>
+  );
+}
 
 export default function Login() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [otp, setOtp] = useState("");
+  const [needsCode, setNeedsCode] = useState(false); // second step, for accounts with two-factor authentication
   const router = useRouter();
   const { showNotification } = useNotification();
 
@@ -17,10 +39,13 @@ export default function Login() {
     const result = await signIn("credentials", {
       email,
       password,
+      ...(needsCode && { otp }),
       redirect: false,
     });
 
-    if (result?.error) {
+    if (result?.error === TWO_FACTOR_REQUIRED) {
+      setNeedsCode(true); // the password was right, now the code from the authenticator app
+    } else if (result?.error) {
       showNotification(result.error, "error");
     } else {
       showNotification("Login successful!", "success");
@@ -31,33 +56,69 @@ export default function Login() {
   return (
     <div className="max-w-md mx-auto">
       <h1 className="text-2xl font-bold mb-4">Login</h1>
+      <Suspense>
+        <OAuthError />
+      </Suspense>
+      <OAuthButtons />
       <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <label htmlFor="email" className="block mb-1">
-            Email
-          </label>
-          <input
-            type="email"
-            id="email"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            required
-            className="w-full px-3 py-2 border rounded"
-          />
-        </div>
-        <div>
-          <label htmlFor="password" className="block mb-1">
-            Password
-          </label>
-          <input
-            type="password"
-            id="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-            className="w-full px-3 py-2 border rounded"
-          />
-        </div>
+        {needsCode ? (
+          <div>
+            <label htmlFor="otp" className="block mb-1">
+              Authentication code
+            </label>
+            <input
+              type="text"
+              id="otp"
+              value={otp}
+              onChange={(e) => setOtp(e.target.value)}
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              placeholder="123456 or a recovery code"
+              className="w-full px-3 py-2 border rounded"
+            />
+            <p className="text-sm text-base-content/60 mt-1">
+              Enter the 6 digit code from your authenticator app, or one of your recovery codes.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div>
+              <label htmlFor="email" className="block mb-1">
+                Email
+              </label>
+              <input
+                type="email"
+                id="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="w-full px-3 py-2 border rounded"
+              />
+            </div>
+            <div>
+              <label htmlFor="password" className="block mb-1">
+                Password
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className="w-full px-3 py-2 border rounded"
+              />
+              <div className="text-right mt-1">
+                <Link
+                  href="/forgot-password"
+                  className="text-sm text-blue-500 hover:text-blue-600"
+                >
+                  Forgot password?
+                </Link>
+              </div>
+            </div>
+          </>
+        )}
         <button
           type="submit"
           className="w-full bg-blue-500 text-white py-2 rounded hover:bg-blue-600"
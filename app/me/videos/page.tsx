@@ -0,0 +1,78 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import VideoFeed from "../../components/VideoFeed";
+import { STATUS_LABELS } from "../../components/PublishStatusFields";
+import { VideoStatus } from "@/lib/constants";
+import { IVideo } from "@/models/Video";
+import { apiClient } from "@/lib/api-client";
+
+const TABS: (VideoStatus | "all")[] = ["all", "published", "draft", "scheduled", "unlisted", "private"];
+
+export default function MyVideosPage() {
+  const { data: session } = useSession();
+  const [videos, setVideos] = useState<IVideo[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [tab, setTab] = useState<VideoStatus | "all">("all");
+  const latestRequest = useRef(0); // like the home feed: a slow answer for the previous tab is dropped
+  const userId = session?.user.id;
+
+  const fetchVideos = useCallback(
+    async (cursor: string | null) => {
+      if (!userId) return; // waiting for the session to load
+      const requestId = ++latestRequest.current;
+      setLoading(true);
+      try {
+        const data = await apiClient.getUserVideos(userId, {
+          status: tab === "all" ? undefined : tab,
+          cursor,
+        });
+        if (requestId !== latestRequest.current) return;
+        setVideos((current) => (cursor ? [...current, ...data.videos] : data.videos));
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error("Error fetching your videos:", error);
+      } finally {
+        if (requestId === latestRequest.current) setLoading(false);
+      }
+    },
+    [userId, tab]
+  );
+
+  useEffect(() => {
+    setVideos([]); // switching tabs starts a new list
+    setNextCursor(null);
+    fetchVideos(null);
+  }, [fetchVideos]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) fetchVideos(nextCursor);
+  }, [fetchVideos, nextCursor]);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold">My Reels</h1>
+        <Link href="/upload" className="btn btn-primary">
+          Upload New Reel
+        </Link>
+      </div>
+      <div role="tablist" className="tabs tabs-boxed mb-6 overflow-x-auto">
+        {TABS.map((value) => (
+          <button
+            key={value}
+            role="tab"
+            className={`tab ${tab === value ? "tab-active" : ""}`}
+            onClick={() => setTab(value)}
+          >
+            {value === "all" ? "All" : value === "draft" ? "Drafts" : STATUS_LABELS[value]}
+          </button>
+        ))}
+      </div>
+      <VideoFeed videos={videos} hasMore={!!nextCursor} loading={loading} onLoadMore={loadMore} />
+    </div>
+  );
+}
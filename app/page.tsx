@@ -1,30 +1,93 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { Play } from "lucide-react";
 import VideoFeed from "./components/VideoFeed";
+import TrendingTags from "./components/TrendingTags";
 import { IVideo } from "@/models/Video";
 import { apiClient } from "@/lib/api-client";
 
+type FeedTab = "forYou" | "following";
+
 export default function Home() {
+  const { data: session } = useSession();
+  const [tab, setTab] = useState<FeedTab>("forYou");
   const [videos, setVideos] = useState<IVideo[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const latestRequest = useRef(0); // bumped by every fetch, so a slow answer for the other tab is dropped
 
-  useEffect(() => {
-    const fetchVideos = async () => {
+  const fetchVideos = useCallback(
+    async (cursor: string | null) => {
+      const requestId = ++latestRequest.current;
+      setLoading(true);
       try {
-        const data = await apiClient.getVideos();
-        setVideos(data);
+        const data =
+          tab === "following"
+            ? await apiClient.getFollowingFeed(cursor)
+            : await apiClient.getVideos(cursor);
+        if (requestId !== latestRequest.current) return; // the user switched tabs meanwhile
+        setVideos((current) =>
+          cursor ? [...current, ...data.videos] : data.videos
+        ); // appending the next page, or starting over on the first one
+        setNextCursor(data.nextCursor);
       } catch (error) {
         console.error("Error fetching videos:", error);
+      } finally {
+        if (requestId === latestRequest.current) setLoading(false);
       }
-    };
+    },
+    [tab]
+  );
 
-    fetchVideos();
-  }, []);
+  useEffect(() => {
+    setVideos([]); // switching tabs starts a new list
+    setNextCursor(null);
+    fetchVideos(null);
+  }, [fetchVideos]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) fetchVideos(nextCursor);
+  }, [fetchVideos, nextCursor]);
 
   return (
     <main className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-8">ImageKit ReelsPro</h1>
-      <VideoFeed videos={videos} />
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold">ImageKit ReelsPro</h1>
+        <Link href="/reels" className="btn btn-primary gap-2">
+          <Play className="w-4 h-4" />
+          Watch Reels
+        </Link>
+      </div>
+
+      {session && (
+        <div role="tablist" className="tabs tabs-boxed w-fit mb-6">
+          <button
+            role="tab"
+            className={`tab ${tab === "forYou" ? "tab-active" : ""}`}
+            onClick={() => setTab("forYou")}
+          >
+            For you
+          </button>
+          <button
+            role="tab"
+            className={`tab ${tab === "following" ? "tab-active" : ""}`}
+            onClick={() => setTab("following")}
+          >
+            Following
+          </button>
+        </div>
+      )}
+
+      {tab === "forYou" && <TrendingTags />}
+      <VideoFeed
+        videos={videos}
+        hasMore={!!nextCursor}
+        loading={loading}
+        onLoadMore={loadMore}
+      />
     </main>
   );
-}
\ No newline at end of file
+}
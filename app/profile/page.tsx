@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import Avatar from "../components/Avatar";
+import FileUpload from "../components/FileUpload";
+import { useNotification } from "../components/Notification";
+import { apiClient, getApiErrorMessage, UploadResult, UserProfile } from "@/lib/api-client";
+import {
+  BIO_MAX_LENGTH,
+  normalizeUsername,
+  validateUsername,
+} from "@/lib/username";
+
+export default function EditProfilePage() {
+  const { update } = useSession();
+  const { showNotification } = useNotification();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [username, setUsername] = useState("");
+  const [bio, setBio] = useState("");
+  const [avatarUrl, setAvatarUrl] = useState("");
+  const [avatarUploadId, setAvatarUploadId] = useState(""); // a new avatar, applied on save
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const data = await apiClient.getMyProfile();
+        setProfile(data);
+        setUsername(data.username ?? "");
+        setBio(data.bio ?? "");
+        setAvatarUrl(data.avatarUrl ?? "");
+      } catch (error) {
+        console.error("Error fetching profile:", error);
+      }
+    };
+
+    fetchProfile();
+  }, []);
+
+  const handleAvatarUpload = (response: UploadResult) => {
+    setAvatarUrl(response.filePath); // the preview, the server takes the upload id
+    setAvatarUploadId(response.uploadId);
+    showNotification("Avatar uploaded, save to apply it", "info");
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const usernameError = validateUsername(normalizeUsername(username));
+    if (usernameError) {
+      showNotification(usernameError, "error");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await apiClient.updateProfile({
+        username,
+        bio,
+        avatarUploadId: avatarUploadId || undefined,
+      });
+      setProfile(updated);
+      setAvatarUploadId(""); // the upload is used up now
+      setUsername(updated.username ?? "");
+      await update(); // refreshes the username stored in the session token
+      showNotification("Profile updated successfully!", "success");
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to update profile"), "error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!profile) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto">
+      <h1 className="text-2xl font-bold mb-4">Edit Profile</h1>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center gap-4">
+          <Avatar avatarUrl={avatarUrl} username={username} size={72} />
+          <div className="flex-1">
+            <FileUpload fileType="image" onSuccess={handleAvatarUpload} />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="username" className="block mb-1">
+            Username
+          </label>
+          <input
+            type="text"
+            id="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+            className="w-full px-3 py-2 border rounded"
+          />
+        </div>
+        <div>
+          <label htmlFor="bio" className="block mb-1">
+            Bio
+          </label>
+          <textarea
+            id="bio"
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+            maxLength={BIO_MAX_LENGTH}
+            className="w-full px-3 py-2 border rounded h-24"
+          />
+          <span className="text-sm text-base-content/60">
+            {bio.length}/{BIO_MAX_LENGTH}
+          </span>
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full bg-blue-500 text-white py-2 rounded hover:bg-blue-600"
+        >
+          {saving ? "Saving..." : "Save Profile"}
+        </button>
+        {profile.username && (
+          <p className="text-center">
+            <Link
+              href={`/u/${profile.username}`}
+              className="text-blue-500 hover:text-blue-600"
+            >
+              View public profile
+            </Link>
+          </p>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import ReelsPlayer from "../components/ReelsPlayer";
+import { IVideo } from "@/models/Video";
+import { apiClient } from "@/lib/api-client";
+
+export default function ReelsPage() {
+  const [videos, setVideos] = useState<IVideo[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const loadingRef = useRef(false); // a ref, so a slow page can't be requested twice by quick swipes
+
+  const fetchVideos = useCallback(async (cursor: string | null) => {
+    if (loadingRef.current) return;
+    loadingRef.current = true;
+    try {
+      const data = await apiClient.getVideos(cursor);
+      setVideos((current) =>
+        cursor ? [...current, ...data.videos] : data.videos
+      );
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error("Error fetching videos:", error);
+    } finally {
+      loadingRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVideos(null);
+  }, [fetchVideos]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) fetchVideos(nextCursor);
+  }, [fetchVideos, nextCursor]);
+
+  return (
+    <ReelsPlayer videos={videos} hasMore={!!nextCursor} onLoadMore={loadMore} />
+  );
+}
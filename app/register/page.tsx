@@ -3,37 +3,49 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { useNotification } from "../components/Notification";
+import OAuthButtons from "../components/OAuthButtons";
 import Link from "next/link";
+import { FieldErrors, validateRegistration } from "@/lib/validation";
 
 export default function Register() {
   const [email, setEmail] = useState("");
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const router = useRouter();
   const { showNotification } = useNotification();
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
+    // same schema the API runs, so most mistakes are caught before the request
+    const result = validateRegistration({ email, username, password });
+    const errors: FieldErrors = result.success ? {} : { ...result.errors };
     if (password !== confirmPassword) {
-      showNotification("Passwords do not match", "error");
-      return;
+      errors.confirmPassword = "Passwords do not match";
     }
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
 
     try {
       const res = await fetch("/api/auth/register", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ email, username, password }),
       });
 
       const data = await res.json();
 
       if (!res.ok) {
+        if (data.fieldErrors) setFieldErrors(data.fieldErrors);
         throw new Error(data.error || "Registration failed");
       }
 
-      showNotification("Registration successful! Please log in.", "success");
+      showNotification(
+        "Registration successful! Check your email to verify your account, then log in.",
+        "success"
+      );
       router.push("/login");
     } catch (error) {
       showNotification(
@@ -46,6 +58,7 @@ export default function Register() {
   return (
     <div className="max-w-md mx-auto">
       <h1 className="text-2xl font-bold mb-4">Register</h1>
+      <OAuthButtons />
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
           <label htmlFor="email" className="block mb-1">
@@ -59,6 +72,26 @@ export default function Register() {
             required
             className="w-full px-3 py-2 border rounded"
           />
+          {fieldErrors.email && (
+            <p className="text-error text-sm mt-1">{fieldErrors.email}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="username" className="block mb-1">
+            Username
+          </label>
+          <input
+            type="text"
+            id="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+            autoComplete="username"
+            className="w-full px-3 py-2 border rounded"
+          />
+          {fieldErrors.username && (
+            <p className="text-error text-sm mt-1">{fieldErrors.username}</p>
+          )}
         </div>
         <div>
           <label htmlFor="password" className="block mb-1">
@@ -72,6 +105,9 @@ export default function Register() {
             required
             className="w-full px-3 py-2 border rounded"
           />
+          {fieldErrors.password && (
+            <p className="text-error text-sm mt-1">{fieldErrors.password}</p>
+          )}
         </div>
         <div>
           <label htmlFor="confirmPassword" className="block mb-1">
@@ -85,6 +121,9 @@ export default function Register() {
             required
             className="w-full px-3 py-2 border rounded"
           />
+          {fieldErrors.confirmPassword && (
+            <p className="text-error text-sm mt-1">{fieldErrors.confirmPassword}</p>
+          )}
         </div>
         <button
           type="submit"
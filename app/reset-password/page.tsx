@@ -0,0 +1,105 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { signOut } from "next-auth/react";
+import Link from "next/link";
+import { useNotification } from "../components/Notification";
+import { apiClient, getApiErrorMessage } from "@/lib/api-client";
+import { validatePassword } from "@/lib/validation";
+
+function ResetPassword() {
+  const token = useSearchParams().get("token");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const router = useRouter();
+  const { showNotification } = useNotification();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      showNotification(passwordError, "error");
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      showNotification("Passwords do not match", "error");
+      return;
+    }
+
+    try {
+      const result = await apiClient.confirmPasswordReset(token!, password);
+      await signOut({ redirect: false }); // this browser's session is no longer valid either
+      showNotification(result.message, "success");
+      router.push("/login");
+    } catch (error) {
+      showNotification(
+        getApiErrorMessage(error, "Failed to reset password"),
+        "error"
+      );
+    }
+  };
+
+  if (!token) {
+    return (
+      <p className="text-center">
+        This reset link is missing its token.{" "}
+        <Link href="/forgot-password" className="text-blue-500 hover:text-blue-600">
+          Request a new one
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="password" className="block mb-1">
+          New Password
+        </label>
+        <input
+          type="password"
+          id="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          autoComplete="new-password"
+          className="w-full px-3 py-2 border rounded"
+        />
+      </div>
+      <div>
+        <label htmlFor="confirmPassword" className="block mb-1">
+          Confirm New Password
+        </label>
+        <input
+          type="password"
+          id="confirmPassword"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          autoComplete="new-password"
+          className="w-full px-3 py-2 border rounded"
+        />
+      </div>
+      <button
+        type="submit"
+        className="w-full bg-blue-500 text-white py-2 rounded hover:bg-blue-600"
+      >
+        Reset Password
+      </button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="max-w-md mx-auto">
+      <h1 className="text-2xl font-bold mb-4">Reset Password</h1>
+      <Suspense>
+        <ResetPassword />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import VideoFeed from "../components/VideoFeed";
+import { IVideo } from "@/models/Video";
+import { apiClient } from "@/lib/api-client";
+
+function SearchResults() {
+  const query = useSearchParams().get("q")?.trim() ?? "";
+  const [videos, setVideos] = useState<IVideo[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchResults = useCallback(
+    async (cursor: string | null) => {
+      if (!query) return;
+      setLoading(true);
+      try {
+        const data = await apiClient.searchVideos(query, cursor);
+        setVideos((current) =>
+          cursor ? [...current, ...data.videos] : data.videos
+        );
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error("Error searching videos:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [query]
+  );
+
+  useEffect(() => {
+    setVideos([]);
+    setNextCursor(null);
+    fetchResults(null);
+  }, [fetchResults]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) fetchResults(nextCursor);
+  }, [fetchResults, nextCursor]);
+
+  return (
+    <>
+      <h1 className="text-3xl font-bold mb-8">
+        {query ? `Results for "${query}"` : "Search"}
+      </h1>
+      <VideoFeed
+        videos={videos}
+        hasMore={!!nextCursor}
+        loading={loading}
+        onLoadMore={loadMore}
+      />
+    </>
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* useSearchParams needs a Suspense boundary so the page can still be prerendered */}
+      <Suspense>
+        <SearchResults />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { signOut } from "next-auth/react";
+import { KeyRound, Loader2, Mail, ShieldCheck, Trash2 } from "lucide-react";
+import { useNotification } from "../components/Notification";
+import {
+  AccountDeletionResult,
+  AccountSettings,
+  apiClient,
+  getApiErrorMessage,
+  getApiFieldErrors,
+} from "@/lib/api-client";
+import { validateEmail, validatePassword } from "@/lib/validation";
+
+function DeletionSummary({ result }: { result: AccountDeletionResult }) {
+  const { removed } = result;
+  const rows: [string, number][] = [
+    ["Videos", removed.videos],
+    ["Uploaded files", removed.files],
+    ["Likes", removed.likes],
+    ["Comments", removed.comments],
+    ["Follows", removed.follows],
+    ["Reports", removed.reports],
+  ];
+
+  return (
+    <div className="max-w-md mx-auto space-y-4 text-center">
+      <h1 className="text-2xl font-bold">{result.message}</h1>
+      <p className="text-base-content/70">This is what was removed:</p>
+      <table className="table">
+        <tbody>
+          {rows.map(([label, count]) => (
+            <tr key={label}>
+              <td className="text-left">{label}</td>
+              <td className="text-right">{count}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button className="btn btn-primary" onClick={() => signOut({ callbackUrl: "/" })}>
+        Done
+      </button>
+    </div>
+  );
+}
+
+export default function SettingsPage() {
+  const { showNotification } = useNotification();
+  const [account, setAccount] = useState<AccountSettings | null>(null);
+  const [newEmail, setNewEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [deleteConfirm, setDeleteConfirm] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [deleted, setDeleted] = useState<AccountDeletionResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchAccount = async () => {
+    try {
+      setAccount(await apiClient.getAccount());
+    } catch (error) {
+      console.error("Error fetching account:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchAccount();
+  }, []);
+
+  // runs one of the settings requests with the busy flag, field errors and error notification handled
+  // field errors are keyed "section.field": every section has its own password input
+  const run = async (section: string, action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setErrors({});
+    try {
+      await action();
+    } catch (error) {
+      const fieldErrors = getApiFieldErrors(error);
+      setErrors(
+        Object.fromEntries(
+          Object.entries(fieldErrors).map(([field, message]) => [`${section}.${field}`, message])
+        )
+      );
+      showNotification(getApiErrorMessage(error, fallback), "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChangeEmail = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const emailError = validateEmail(newEmail);
+    if (emailError) return setErrors({ "email.email": emailError });
+
+    run("email", async () => {
+      const result = await apiClient.changeEmail(emailPassword, newEmail);
+      setNewEmail("");
+      setEmailPassword("");
+      setAccount((prev) => prev && { ...prev, pendingEmail: result.pendingEmail });
+      showNotification(result.message, "success");
+    }, "Failed to change email");
+  };
+
+  const handleCancelEmailChange = () =>
+    run("email", async () => {
+      await apiClient.cancelEmailChange();
+      setAccount((prev) => prev && { ...prev, pendingEmail: null });
+    }, "Failed to cancel email change");
+
+  const handleChangePassword = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) return setErrors({ "password.newPassword": passwordError });
+
+    run("password", async () => {
+      const result = await apiClient.changePassword(currentPassword, newPassword);
+      showNotification(result.message, "success");
+      await signOut({ callbackUrl: "/login" }); // the server ended every session, this one included
+    }, "Failed to change password");
+  };
+
+  const handleDelete = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!confirm("Delete your account and all your reels? This can't be undone.")) return;
+
+    run("delete", async () => {
+      setDeleted(
+        await apiClient.deleteAccount(
+          account?.hasPassword ? { password: deleteConfirm } : { confirmation: deleteConfirm }
+        )
+      );
+    }, "Failed to delete account");
+  };
+
+  if (deleted) return <DeletionSummary result={deleted} />;
+
+  if (!account) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-error text-sm mt-1">{errors[field]}</p>;
+
+  const noPasswordNote = (
+    <p className="text-base-content/70">
+      You sign in with GitHub or Google. To change this, first set a password with &quot;Forgot
+      password?&quot; on the login page.
+    </p>
+  );
+
+  return (
+    <div className="max-w-md mx-auto space-y-8">
+      <h1 className="text-2xl font-bold">Settings</h1>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Mail className="w-5 h-5" />
+          Email
+        </h2>
+        <p>
+          Your email is <strong>{account.email}</strong>.
+        </p>
+        {account.pendingEmail && (
+          <div role="alert" className="alert alert-info">
+            <span>
+              Waiting for you to confirm <strong>{account.pendingEmail}</strong> from the link we
+              sent there.
+            </span>
+            <button className="btn btn-ghost btn-sm" disabled={busy} onClick={handleCancelEmailChange}>
+              Cancel
+            </button>
+          </div>
+        )}
+        {account.hasPassword ? (
+          <form onSubmit={handleChangeEmail} className="space-y-4" noValidate>
+            <div>
+              <input
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                placeholder="New email"
+                autoComplete="email"
+                className="input input-bordered w-full"
+              />
+              {fieldError("email.email")}
+            </div>
+            <div>
+              <input
+                type="password"
+                value={emailPassword}
+                onChange={(e) => setEmailPassword(e.target.value)}
+                placeholder="Current password"
+                autoComplete="current-password"
+                className="input input-bordered w-full"
+              />
+              {fieldError("email.password")}
+            </div>
+            <button type="submit" className="btn btn-primary" disabled={busy || !emailPassword}>
+              Change email
+            </button>
+          </form>
+        ) : (
+          noPasswordNote
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Password
+        </h2>
+        {account.hasPassword ? (
+          <form onSubmit={handleChangePassword} className="space-y-4" noValidate>
+            <div>
+              <input
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                placeholder="Current password"
+                autoComplete="current-password"
+                className="input input-bordered w-full"
+              />
+              {fieldError("password.password")}
+            </div>
+            <div>
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="New password"
+                autoComplete="new-password"
+                className="input input-bordered w-full"
+              />
+              {fieldError("password.newPassword")}
+            </div>
+            <p className="text-sm text-base-content/70">
+              You will be logged out on every device, this one included.
+            </p>
+            <button type="submit" className="btn btn-primary" disabled={busy || !currentPassword}>
+              Change password
+            </button>
+          </form>
+        ) : (
+          noPasswordNote
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Security
+        </h2>
+        <Link href="/settings/security" className="btn btn-outline">
+          Two-factor authentication
+        </Link>
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2 text-error">
+          <Trash2 className="w-5 h-5" />
+          Delete account
+        </h2>
+        <p className="text-base-content/70">
+          Deletes your profile, your reels with their likes and comments, your own likes, comments
+          and follows. This can&apos;t be undone.
+        </p>
+        <form onSubmit={handleDelete} className="space-y-4" noValidate>
+          <div>
+            <input
+              type={account.hasPassword ? "password" : "text"}
+              value={deleteConfirm}
+              onChange={(e) => setDeleteConfirm(e.target.value)}
+              placeholder={account.hasPassword ? "Current password" : `Type ${account.email} to confirm`}
+              autoComplete={account.hasPassword ? "current-password" : "off"}
+              className="input input-bordered w-full"
+            />
+            {fieldError(account.hasPassword ? "delete.password" : "delete.confirmation")}
+          </div>
+          <button type="submit" className="btn btn-error" disabled={busy || !deleteConfirm}>
+            Delete my account
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { useNotification } from "../../components/Notification";
+import {
+  apiClient,
+  getApiErrorMessage,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from "@/lib/api-client";
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <div role="alert" className="alert alert-warning">
+        <span>
+          Save these recovery codes somewhere safe. Each one can be used once to log in if you lose
+          your phone. They won&apos;t be shown again.
+        </span>
+      </div>
+      <ul className="grid grid-cols-2 gap-2 font-mono bg-base-200 p-4 rounded">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={() => navigator.clipboard.writeText(codes.join("\n"))}
+        >
+          Copy
+        </button>
+        <button className="btn btn-primary btn-sm" onClick={onDone}>
+          I saved them
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function SecuritySettingsPage() {
+  const { showNotification } = useNotification();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await apiClient.getTwoFactorStatus());
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  // runs one of the settings requests with the busy flag and error notification handled
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, fallback), "error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStartSetup = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    run(async () => {
+      setSetup(await apiClient.startTwoFactorSetup(password));
+      setPassword("");
+    }, "Failed to start setup");
+  };
+
+  const handleEnable = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    run(async () => {
+      const result = await apiClient.enableTwoFactor(code);
+      setRecoveryCodes(result.recoveryCodes);
+      setSetup(null);
+      setCode("");
+      showNotification("Two-factor authentication enabled", "success");
+    }, "Failed to enable two-factor authentication");
+  };
+
+  const handleDisable = () =>
+    run(async () => {
+      const result = await apiClient.disableTwoFactor(password);
+      setPassword("");
+      showNotification(result.message, "success");
+      await fetchStatus();
+    }, "Failed to disable two-factor authentication");
+
+  const handleRegenerate = () =>
+    run(async () => {
+      const result = await apiClient.regenerateRecoveryCodes(password);
+      setPassword("");
+      setRecoveryCodes(result.recoveryCodes);
+    }, "Failed to generate new recovery codes");
+
+  if (!status) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const passwordInput = (
+    <input
+      type="password"
+      value={password}
+      onChange={(e) => setPassword(e.target.value)}
+      placeholder="Current password"
+      autoComplete="current-password"
+      required
+      className="input input-bordered w-full"
+    />
+  );
+
+  return (
+    <div className="max-w-md mx-auto space-y-6">
+      <h1 className="text-2xl font-bold">Security</h1>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Two-factor authentication
+          {status.enabled && <span className="badge badge-success">On</span>}
+        </h2>
+
+        {recoveryCodes ? (
+          <RecoveryCodes
+            codes={recoveryCodes}
+            onDone={() => {
+              setRecoveryCodes(null);
+              fetchStatus();
+            }}
+          />
+        ) : !status.hasPassword ? (
+          <p className="text-base-content/70">
+            You sign in with GitHub or Google, whose own two-factor settings protect your account.
+            To use a password (and 2FA) here too, set one with &quot;Forgot password?&quot; on the
+            login page.
+          </p>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <p className="text-base-content/70">
+              Logging in asks for a code from your authenticator app. You have{" "}
+              {status.recoveryCodesRemaining} unused recovery code
+              {status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+            </p>
+            {passwordInput}
+            <div className="flex gap-2">
+              <button className="btn btn-outline" disabled={busy || !password} onClick={handleRegenerate}>
+                New recovery codes
+              </button>
+              <button className="btn btn-error" disabled={busy || !password} onClick={handleDisable}>
+                Turn off
+              </button>
+            </div>
+          </div>
+        ) : setup ? (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-base-content/70">
+              Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy...),
+              then enter the 6 digit code it shows.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element -- a data: URL, nothing for next/image to optimize */}
+            <img src={setup.qrCode} alt="Two-factor QR code" className="w-48 h-48 mx-auto" />
+            <p className="text-sm text-center">
+              Can&apos;t scan it? Enter this key: <code className="break-all">{setup.secret}</code>
+              <br />
+              <a href={setup.otpauthUri} className="link">
+                Open in an authenticator app on this device
+              </a>
+            </p>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              required
+              className="input input-bordered w-full"
+            />
+            <button type="submit" className="btn btn-primary btn-block" disabled={busy}>
+              Enable
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleStartSetup} className="space-y-4">
+            <p className="text-base-content/70">
+              Protect your account with a code from your phone in addition to your password.
+            </p>
+            {passwordInput}
+            <button type="submit" className="btn btn-primary btn-block" disabled={busy}>
+              Set up two-factor authentication
+            </button>
+          </form>
+        )}
+      </section>
+    </div>
+  );
+}
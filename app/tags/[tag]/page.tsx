@@ -0,0 +1,52 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import VideoFeed from "../../components/VideoFeed";
+import { IVideo } from "@/models/Video";
+import { apiClient } from "@/lib/api-client";
+
+export default function TagPage() {
+  const tag = decodeURIComponent(useParams<{ tag: string }>().tag);
+  const [videos, setVideos] = useState<IVideo[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchVideos = useCallback(
+    async (cursor: string | null) => {
+      setLoading(true);
+      try {
+        const data = await apiClient.getTagVideos(tag, cursor);
+        setVideos((current) =>
+          cursor ? [...current, ...data.videos] : data.videos
+        );
+        setNextCursor(data.nextCursor);
+      } catch (error) {
+        console.error("Error fetching tag videos:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [tag]
+  );
+
+  useEffect(() => {
+    fetchVideos(null);
+  }, [fetchVideos]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) fetchVideos(nextCursor);
+  }, [fetchVideos, nextCursor]);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-8">#{tag}</h1>
+      <VideoFeed
+        videos={videos}
+        hasMore={!!nextCursor}
+        loading={loading}
+        onLoadMore={loadMore}
+      />
+    </div>
+  );
+}
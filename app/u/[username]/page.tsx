@@ -0,0 +1,126 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import Avatar from "../../components/Avatar";
+import FollowButton from "../../components/FollowButton";
+import FollowList from "../../components/FollowList";
+import VideoFeed from "../../components/VideoFeed";
+import { IVideo } from "@/models/Video";
+import { apiClient, UserProfile } from "@/lib/api-client";
+
+export default function ProfilePage() {
+  const username = decodeURIComponent(useParams<{ username: string }>().username);
+  const { data: session } = useSession();
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [videos, setVideos] = useState<IVideo[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [followerCount, setFollowerCount] = useState(0);
+  const [openList, setOpenList] = useState<"followers" | "following" | null>(
+    null
+  );
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      setLoading(true);
+      try {
+        const profileData = await apiClient.getProfile(username);
+        setProfile(profileData);
+        setFollowerCount(profileData.followerCount ?? 0);
+        setOpenList(null);
+        const page = await apiClient.getUserVideos(profileData._id);
+        setVideos(page.videos);
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        console.error("Error fetching profile:", error);
+        setProfile(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfile();
+  }, [username]);
+
+  const loadMore = useCallback(async () => {
+    if (!profile || !nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await apiClient.getUserVideos(profile._id, { cursor: nextCursor });
+      setVideos((current) => [...current, ...page.videos]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error fetching more reels:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [profile, nextCursor]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <p className="text-center py-12 text-base-content/70">User not found</p>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center gap-6 mb-8">
+        <Avatar avatarUrl={profile.avatarUrl} username={profile.username} />
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold">@{profile.username}</h1>
+          {profile.bio && <p className="text-base-content/80">{profile.bio}</p>}
+          <p className="text-sm text-base-content/60">
+            {profile.videoCount ?? videos.length} reels ·{" "}
+            <button
+              onClick={() => setOpenList(openList === "followers" ? null : "followers")}
+              className="hover:underline"
+            >
+              {followerCount} followers
+            </button>{" "}
+            ·{" "}
+            <button
+              onClick={() => setOpenList(openList === "following" ? null : "following")}
+              className="hover:underline"
+            >
+              {profile.followingCount ?? 0} following
+            </button>{" "}
+            · joined {new Date(profile.createdAt).toLocaleDateString()}
+          </p>
+          {session?.user.id === profile._id ? (
+            <Link href="/profile" className="btn btn-sm btn-outline">
+              Edit Profile
+            </Link>
+          ) : (
+            <FollowButton
+              key={profile._id}
+              userId={profile._id}
+              initialFollowing={profile.followedByMe}
+              onChange={setFollowerCount}
+            />
+          )}
+        </div>
+      </div>
+
+      {openList && (
+        <div className="max-w-sm mb-8">
+          <h2 className="font-bold mb-2 capitalize">{openList}</h2>
+          <FollowList key={openList} userId={profile._id} type={openList} />
+        </div>
+      )}
+      <VideoFeed videos={videos} hasMore={!!nextCursor} loading={loadingMore} onLoadMore={loadMore} />
+    </div>
+  );
+}
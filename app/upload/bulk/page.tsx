@@ -0,0 +1,16 @@
+"use client";
+
+import BulkUploadForm from "../../components/BulkUploadForm";
+import VerifyEmailBanner from "../../components/VerifyEmailBanner";
+
+export default function BulkUploadPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-3xl font-bold mb-8">Bulk Upload</h1>
+        <VerifyEmailBanner />
+        <BulkUploadForm />
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,20 @@
 "use client";
 
+import Link from "next/link";
 import VideoUploadForm from "../components/VideoUploadForm";
+import VerifyEmailBanner from "../components/VerifyEmailBanner";
 
 export default function VideoUploadPage() {
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="max-w-2xl mx-auto">
-        <h1 className="text-3xl font-bold mb-8">Upload New Reel</h1>
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold">Upload New Reel</h1>
+          <Link href="/upload/bulk" className="btn btn-ghost btn-sm">
+            Upload several
+          </Link>
+        </div>
+        <VerifyEmailBanner />
         <VideoUploadForm />
       </div>
     </div>
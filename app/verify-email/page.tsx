@@ -0,0 +1,81 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { apiClient, getApiErrorMessage } from "@/lib/api-client";
+
+function VerifyEmail() {
+  const token = useSearchParams().get("token");
+  const { data: session, update } = useSession();
+  const [status, setStatus] = useState<"verifying" | "success" | "error">(
+    "verifying"
+  );
+  const [message, setMessage] = useState("");
+  const requested = useRef(false); // the token is single use, so never post it twice (e.g. React strict mode)
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      if (!token) {
+        setStatus("error");
+        setMessage("This verification link is missing its token");
+        return;
+      }
+
+      try {
+        const result = await apiClient.verifyEmail(token);
+        setStatus("success");
+        setMessage(result.message);
+      } catch (error) {
+        setStatus("error");
+        setMessage(getApiErrorMessage(error, "Failed to verify email"));
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  useEffect(() => {
+    if (status === "success" && session) update(); // picks up isVerified in the session token
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  if (status === "verifying") {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto text-center space-y-4">
+      <h1 className="text-2xl font-bold">
+        {status === "success" ? "Email verified" : "Verification failed"}
+      </h1>
+      <p>{message}</p>
+      {status === "success" ? (
+        <Link href={session ? "/upload" : "/login"} className="btn btn-primary">
+          {session ? "Upload your first reel" : "Login"}
+        </Link>
+      ) : (
+        <p className="text-sm text-base-content/70">
+          You can request a new link from the upload page after logging in.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { Loader2 } from "lucide-react";
+import VideoEditForm from "../../../components/VideoEditForm";
+import { IVideo } from "@/models/Video";
+import { apiClient } from "@/lib/api-client";
+
+export default function EditVideoPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [video, setVideo] = useState<IVideo | null>(null);
+
+  useEffect(() => {
+    const fetchVideo = async () => {
+      try {
+        setVideo(await apiClient.getVideo(id));
+      } catch (error) {
+        console.error("Error fetching video:", error);
+      }
+    };
+
+    fetchVideo();
+  }, [id]);
+
+  if (!video || !session) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (video.owner?.toString() !== session.user.id) {
+    return (
+      <p className="text-center py-12 text-base-content/70">
+        You can only edit your own reels
+      </p>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-3xl font-bold mb-8">Edit Reel</h1>
+        <VideoEditForm
+          video={video}
+          onSaved={() => router.push(`/videos/${id}`)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { ChevronLeft, ChevronRight, Loader2, Pencil, Trash2 } from "lucide-react";
+import { useNotification } from "../../components/Notification";
+import LikeButton from "../../components/LikeButton";
+import ReportButton from "../../components/ReportButton";
+import CommentSection from "../../components/CommentSection";
+import TagChips from "../../components/TagChips";
+import { VIDEO_DIMENSIONS } from "@/lib/constants";
+import { IVideo } from "@/models/Video";
+import { AdjacentVideos, apiClient, getApiErrorMessage } from "@/lib/api-client";
+import { mediaUrl } from "@/lib/media";
+import { posterUrl } from "@/lib/thumbnails";
+
+export default function VideoPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const { data: session } = useSession();
+  const { showNotification } = useNotification();
+  const [video, setVideo] = useState<IVideo | null>(null);
+  const [adjacent, setAdjacent] = useState<AdjacentVideos | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchVideo = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [videoData, adjacentData] = await Promise.all([
+          apiClient.getVideo(id),
+          apiClient.getAdjacentVideos(id),
+        ]);
+        setVideo(videoData);
+        setAdjacent(adjacentData);
+      } catch (error) {
+        console.error("Error fetching video:", error);
+        setError("Video not found");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVideo();
+  }, [id]);
+
+  const handleDelete = async () => {
+    if (!confirm("Delete this reel? This cannot be undone.")) return;
+
+    try {
+      await apiClient.deleteVideo(id);
+      showNotification("Video deleted successfully", "success");
+      router.push("/me/videos");
+    } catch (error) {
+      showNotification(getApiErrorMessage(error, "Failed to delete video"), "error");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !video) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-base-content/70 mb-4">{error}</p>
+        <Link href="/" className="btn btn-primary">
+          Back to feed
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto space-y-4">
+      <div
+        className="rounded-xl overflow-hidden bg-black w-full"
+        style={{ aspectRatio: "9/16" }}
+      >
+        <video
+          src={mediaUrl(video.videoUrl, {
+            height: video.transformation?.height ?? VIDEO_DIMENSIONS.height,
+            width: video.transformation?.width ?? VIDEO_DIMENSIONS.width,
+            quality: video.transformation?.quality,
+          })}
+          controls={video.controls}
+          poster={posterUrl(video)}
+          autoPlay
+          className="w-full h-full object-contain"
+        />
+      </div>
+
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold">{video.title}</h1>
+          {video.createdAt && (
+            <p className="text-sm text-base-content/60">
+              Uploaded on {new Date(video.createdAt).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <LikeButton
+            key={id}
+            videoId={id}
+            initialLiked={video.likedByMe}
+            initialCount={video.likeCount}
+          />
+          {video.owner?.toString() !== session?.user.id && (
+            <ReportButton targetType="video" targetId={id} />
+          )}
+        </div>
+      </div>
+
+      {session && video.owner?.toString() === session.user.id && (
+        <div className="flex gap-2">
+          <Link href={`/videos/${id}/edit`} className="btn btn-sm btn-outline">
+            <Pencil className="w-4 h-4" />
+            Edit
+          </Link>
+          <button
+            onClick={handleDelete}
+            className="btn btn-sm btn-outline btn-error"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </button>
+        </div>
+      )}
+
+      <p className="whitespace-pre-line text-base-content/80">
+        {video.description}
+      </p>
+
+      <TagChips tags={video.tags} />
+
+      <div className="flex justify-between">
+        {adjacent?.previousId ? (
+          <Link href={`/videos/${adjacent.previousId}`} className="btn btn-ghost">
+            <ChevronLeft className="w-4 h-4" />
+            Previous
+          </Link>
+        ) : (
+          <span />
+        )}
+        {adjacent?.nextId && (
+          <Link href={`/videos/${adjacent.nextId}`} className="btn btn-primary">
+            Next reel
+            <ChevronRight className="w-4 h-4" />
+          </Link>
+        )}
+      </div>
+
+      <CommentSection key={id} videoId={id} />
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+export async function register() {
+  // only the Node.js server sends mail, the edge runtime (middleware) never imports lib/mail.ts
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { checkMailConfig } = await import("./lib/mail");
+    checkMailConfig();
+  }
+}
+/*
+Runs once when the Next.js server starts, before any request is handled.
+A configuration that can't work (e.g. no mail transport in production, see lib/mail.ts) throws here, so the server refuses to start.
+*/
@@ -0,0 +1,147 @@
+import mongoose from "mongoose";
+import { deleteStoredFile } from "./storage";
+import Account from "@/models/Account";
+import AuthToken from "@/models/AuthToken";
+import Comment from "@/models/Comment";
+import Follow from "@/models/Follow";
+import Like from "@/models/Like";
+import Report from "@/models/Report";
+import User from "@/models/User";
+import Video from "@/models/Video";
+
+type DeletableVideo = {
+  _id?: mongoose.Types.ObjectId;
+  fileId?: string;
+  thumbnailFileId?: string;
+};
+
+export type AccountDeletionSummary = {
+  videos: number;
+  files: number; // video files, uploaded covers and the avatar
+  likes: number;
+  comments: number;
+  follows: number;
+  reports: number;
+};
+
+// removes a stored file unless a video other than the given ones still uses it, as its video or its cover
+export async function deleteUnusedVideoFile(fileId: string, exceptVideos: DeletableVideo["_id"][] = []) {
+  const inUse = await Video.exists({
+    _id: { $nin: exceptVideos },
+    $or: [{ fileId }, { thumbnailFileId: fileId }],
+  });
+  return !inUse && deleteStoredFile(fileId);
+}
+
+// removes a replaced (or its deleted user's) avatar from the storage, unless another user or a video still uses the file
+export async function deleteUnusedAvatarFile(fileId: string, exceptUser?: string | mongoose.Types.ObjectId) {
+  const [video, user] = await Promise.all([
+    Video.exists({ $or: [{ fileId }, { thumbnailFileId: fileId }] }),
+    User.exists({ _id: { $ne: exceptUser }, avatarFileId: fileId }),
+  ]);
+  return !video && !user && deleteStoredFile(fileId);
+}
+
+// removes the files of these videos (and their uploaded covers) from the storage, returning how many are gone
+async function deleteVideoFiles(videos: DeletableVideo[]) {
+  const videoIds = videos.map((video) => video._id);
+  let deleted = 0;
+  for (const video of videos) {
+    for (const fileId of [video.fileId, video.thumbnailFileId]) {
+      if (fileId && (await deleteUnusedVideoFile(fileId, videoIds))) deleted++;
+    }
+  }
+  return deleted;
+}
+
+// deletes videos with everything hanging off them: their stored files, likes, comments and the reports about them
+export async function deleteVideos(videos: DeletableVideo[]) {
+  const videoIds = videos.map((video) => video._id);
+  const commentIds = await Comment.find({ video: { $in: videoIds } }).distinct("_id");
+
+  const files = await deleteVideoFiles(videos);
+  const likes = await Like.deleteMany({ video: { $in: videoIds } });
+  const comments = await Comment.deleteMany({ _id: { $in: commentIds } });
+  const reports = await Report.deleteMany({
+    $or: [
+      { targetType: "video", target: { $in: videoIds } },
+      { targetType: "comment", target: { $in: commentIds } },
+    ],
+  });
+  const deletedVideos = await Video.deleteMany({ _id: { $in: videoIds } });
+
+  return {
+    videos: deletedVideos.deletedCount,
+    files,
+    likes: likes.deletedCount,
+    comments: comments.deletedCount,
+    reports: reports.deletedCount,
+  };
+}
+
+// deletes a user and everything they created, returning how much of each was removed
+export async function deleteAccount(
+  userId: string | mongoose.Types.ObjectId
+): Promise<AccountDeletionSummary> {
+  const videos = await Video.find({ owner: userId })
+    .select("_id fileId thumbnailFileId")
+    .lean<DeletableVideo[]>();
+  const removed = await deleteVideos(videos);
+
+  const user = await User.findById(userId).select("+avatarFileId").lean<{ avatarFileId?: string }>();
+  const avatarDeleted = user?.avatarFileId ? await deleteUnusedAvatarFile(user.avatarFileId, userId) : false;
+
+  // their likes on other people's videos: each one comes off its video's counter only if this run deleted it,
+  // so running deleteAccount again after a failure doesn't subtract the same like twice
+  const givenLikes = await Like.find({ user: userId })
+    .select("_id video")
+    .lean<{ _id: mongoose.Types.ObjectId; video: mongoose.Types.ObjectId }[]>();
+  let likes = 0;
+  for (const like of givenLikes) {
+    const { deletedCount } = await Like.deleteOne({ _id: like._id });
+    if (!deletedCount) continue; // already gone, e.g. unliked meanwhile
+    likes++;
+    await Video.updateOne({ _id: like.video, likeCount: { $gt: 0 } }, { $inc: { likeCount: -1 } });
+  }
+
+  // their comments on other people's videos, with the replies under them
+  const ownCommentIds = await Comment.find({ author: userId }).distinct("_id");
+  const commentIds = await Comment.find({
+    $or: [{ _id: { $in: ownCommentIds } }, { parent: { $in: ownCommentIds } }],
+  }).distinct("_id");
+  const comments = await Comment.deleteMany({ _id: { $in: commentIds } });
+
+  const follows = await Follow.deleteMany({
+    $or: [{ follower: userId }, { following: userId }],
+  });
+  // reports they filed, and reports about any comment removed above (replies included)
+  const reports = await Report.deleteMany({
+    $or: [{ reporter: userId }, { targetType: "comment", target: { $in: commentIds } }],
+  });
+
+  await Account.deleteMany({ user: userId });
+  await AuthToken.deleteMany({ user: userId });
+  await User.deleteOne({ _id: userId });
+
+  return {
+    videos: removed.videos,
+    files: removed.files + (avatarDeleted ? 1 : 0),
+    likes: removed.likes + likes,
+    comments: removed.comments + comments.deletedCount,
+    follows: follows.deletedCount,
+    reports: removed.reports + reports.deletedCount,
+  };
+}
+
+/*
+Cascading deletes: MongoDB has no foreign keys, so removing a video or a user leaves likes, comments, follows and reports pointing at nothing unless we remove them ourselves.
+deleteVideos: Used by DELETE /api/videos/:id (one video) and deleteAccount (all of a user's videos).
+Files (videos and uploaded covers) are removed from the storage first, one by one, and a failing delete is only logged: videos uploaded before fileId was stored, or whose file is already gone, are still deleted from the database.
+A file another video still points at is kept (deleteUnusedVideoFile); PUT /api/videos/:id uses the same check for a replaced cover, and PUT /api/profile does the same for a replaced avatar (deleteUnusedAvatarFile).
+deleteAccount: Used by DELETE /api/account.
+The avatar is removed from the storage along with the video files, and counted in files.
+Likes the user gave are deleted one by one, and each like this run actually deleted is subtracted from its Video.likeCount, so counters on other creators' videos stay right even when a run is repeated.
+Reports about every removed comment go too, including replies other users wrote under the user's comments.
+Moderation log entries (models/ModerationLog.ts) are kept on purpose: the audit trail must survive the accounts it mentions.
+The steps aren't one transaction; if one fails halfway, calling deleteAccount again finishes the job since every step only deletes what is left.
+*/
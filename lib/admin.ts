@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "./auth";
+import { connectToDatabase } from "./db";
+import { canModerate } from "./roles";
+import User from "@/models/User";
+
+// makes sure the logged in user's role passes the check, returning either the session or the error response to send
+async function requireRole(isAllowed: (role?: string) => boolean) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  // the role is checked against the database, not only the token, so a demoted admin loses access right away
+  await connectToDatabase();
+  const user = await User.findById(session.user.id).select("role").lean<{ role?: string }>();
+
+  if (!isAllowed(user?.role)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { session };
+}
+
+export function requireAdmin() {
+  return requireRole((role) => role === "admin");
+}
+
+export function requireModerator() {
+  return requireRole(canModerate);
+}
+
+/*
+Used by every route under /api/admin:
+const { session, error } = await requireModerator(); // or requireAdmin() for account management
+if (error) return error;
+requireModerator(): moderators and admins (report queue, hiding videos, audit log).
+requireAdmin(): admins only (listing, suspending and promoting accounts).
+middleware.ts already turns everyone else away from /admin and /api/admin using the role in the JWT; this is the second, authoritative check.
+Making the first admin: there is no sign-up for admins, promote an existing account from the MongoDB shell:
+db.users.updateOne({ email: "you@example.com" }, { $set: { role: "admin" } })
+After that, admins can promote or demote other users from the dashboard.
+*/
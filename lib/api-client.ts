@@ -1,9 +1,213 @@
+import { ModerationAction } from "@/models/ModerationLog";
 import { IVideo } from "@/models/Video";
+import { ReportReason, ReportStatus, ReportTargetType, UserRole, VideoStatus } from "./constants";
+import { UploadSessionInput } from "./validation";
+import type { BulkCreateItemResult } from "./videos"; // type only: lib/videos.ts is server code
 
-export type VideoFormData = Omit<IVideo, "_id">;
+// the video and its cover are named by their upload session, the server looks up the stored files
+export type VideoFormData = Pick<IVideo, "title" | "description" | "thumbnailTime"> &
+  Partial<Pick<IVideo, "controls" | "tags" | "status" | "publishAt">> & {
+    uploadId: string;
+    coverUploadId?: string;
+    transformation?: { quality?: number };
+  };
+
+export type VideoUpdateData = Partial<
+  Pick<
+    IVideo,
+    | "title"
+    | "description"
+    | "controls"
+    | "thumbnailTime"
+    | "tags"
+    | "status"
+    | "publishAt"
+  >
+> & {
+  coverUploadId?: string;
+  transformation?: { quality?: number };
+};
+
+export type VideoPage = {
+  videos: IVideo[];
+  nextCursor: string | null;
+};
+
+export type LikeState = {
+  liked: boolean;
+  likeCount: number;
+};
+
+export type VideoComment = {
+  _id: string;
+  video: string;
+  parent: string | null;
+  body: string;
+  createdAt: string;
+  author: { _id: string; name: string; username: string | null } | null;
+  replies: VideoComment[];
+};
+
+export type CommentPage = {
+  comments: VideoComment[];
+  nextCursor: string | null;
+};
+
+export type TrendingTag = {
+  tag: string;
+  count: number;
+};
+
+export type UserProfile = {
+  _id: string;
+  username?: string;
+  bio?: string;
+  avatarUrl?: string;
+  createdAt: string;
+  email?: string; // only present on your own profile
+  videoCount?: number;
+  followerCount?: number;
+  followingCount?: number;
+  followedByMe?: boolean;
+};
+
+export type FollowState = {
+  following: boolean;
+  followerCount: number;
+};
+
+export type UserSummary = Pick<UserProfile, "_id" | "username" | "avatarUrl">;
+
+export type UserPage = {
+  users: UserSummary[];
+  nextCursor: string | null;
+};
+
+export type ProfileUpdateData = Partial<Pick<UserProfile, "username" | "bio">> & {
+  avatarUploadId?: string; // a finished image upload, becomes the avatar
+};
+
+export type AdjacentVideos = {
+  nextId: string | null;
+  previousId: string | null;
+};
+
+export type AdminUser = {
+  _id: string;
+  email: string;
+  username?: string;
+  role: UserRole;
+  isVerified?: boolean;
+  suspendedAt: string | null;
+  createdAt: string;
+};
+
+export type AdminUserPage = {
+  users: AdminUser[];
+  nextCursor: string | null;
+};
+
+export type AdminVideo = Omit<IVideo, "owner"> & {
+  owner: { _id: string; username?: string; email: string } | null;
+};
+
+export type AdminVideoPage = {
+  videos: AdminVideo[];
+  nextCursor: string | null;
+};
+
+export type ReportData = {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+};
+
+export type ReportQueueItem = {
+  targetType: ReportTargetType;
+  targetId: string;
+  reportCount: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  details: string[];
+  lastReportedAt: string;
+  target: { title?: string; body?: string; videoId: string; isHidden: boolean } | null;
+};
+
+export type ReportQueuePage = {
+  items: ReportQueueItem[];
+  nextCursor: string | null;
+};
+
+export type AuditEntry = {
+  _id: string;
+  actor: { _id: string; username?: string; email: string } | null;
+  action: ModerationAction;
+  targetType: "video" | "comment" | "user";
+  target: string;
+  details?: string;
+  createdAt: string;
+};
+
+export type AuditPage = {
+  entries: AuditEntry[];
+  nextCursor: string | null;
+};
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  hasPassword: boolean;
+};
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+};
+
+export type AccountSettings = {
+  email: string;
+  pendingEmail: string | null;
+  hasPassword: boolean;
+};
+
+export type AccountDeletionResult = {
+  message: string;
+  removed: {
+    videos: number;
+    files: number;
+    likes: number;
+    comments: number;
+    follows: number;
+    reports: number;
+  };
+};
+
+export type UploadResult = {
+  uploadId: string; // what createVideo, updateVideo and updateProfile take to use the file
+  fileId: string;
+  filePath: string;
+  url: string;
+  thumbnailUrl?: string;
+};
+
+export type UploadSessionInfo = {
+  id: string;
+  chunkSize: number;
+  receivedBytes: number;
+  size: number;
+  status: "uploading" | "finalizing" | "complete";
+  result?: UploadResult | null;
+};
+
+export type BulkCreateResult = {
+  results: BulkCreateItemResult[];
+  created: number;
+  failed: number;
+};
 
 type FetchOptions = {
-  method?: "GET" | "POST" | "PUT" | "DELETE";
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
   body?: any;
   headers?: Record<string, string>;
 };
@@ -11,8 +215,8 @@ type FetchOptions = {
 /*
 import { IVideo } from "@/models/Video";
 Imports the TypeScript interface for a video object, ensuring type safety throughout the API client.
-VideoFormData = Omit<IVideo, "_id">;
-Defines a type for video form data, omitting the _id field (since new videos won’t have an ID yet).
+VideoFormData
+Defines a type for video form data: the editable fields, plus the upload sessions holding the video (uploadId) and its cover (coverUploadId).
 FetchOptions
 Type for options passed to the fetch method, including HTTP method, request body, and headers.
 */
@@ -64,16 +268,48 @@ Returns the parsed JSON response, typed as T for type safety.
 
   */
 
-  async getVideos() {
-    return this.fetch<IVideo[]>("/videos");
+  async getVideos(cursor?: string | null, limit?: number) {
+    const params = new URLSearchParams();
+    if (cursor) params.set("cursor", cursor);
+    if (limit) params.set("limit", String(limit));
+    const query = params.toString();
+    return this.fetch<VideoPage>(`/videos${query ? `?${query}` : ""}`);
   }
 
   /*
   Purpose:
-Fetches all videos from the backend.
+Fetches one page of videos from the backend, newest first.
 How:
-Calls the fetch method with the /videos endpoint.
-Returns an array of IVideo objects.
+Calls the fetch method with the /videos endpoint, passing the cursor from the previous page (if any).
+Returns { videos, nextCursor }; nextCursor is null on the last page.
+  */
+
+  async searchVideos(query: string, cursor?: string | null) {
+    const params = new URLSearchParams({ q: query });
+    if (cursor) params.set("cursor", cursor);
+    return this.fetch<VideoPage>(`/videos/search?${params}`);
+  }
+
+  /*
+  Purpose:
+Full-text search over video titles and descriptions, best matches first.
+Returns the same { videos, nextCursor } shape as getVideos, so results can be shown with VideoFeed.
+  */
+
+  async getTagVideos(tag: string, cursor?: string | null) {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    return this.fetch<VideoPage>(
+      `/tags/${encodeURIComponent(tag)}/videos${query}`
+    );
+  }
+
+  async getTrendingTags() {
+    return this.fetch<TrendingTag[]>("/tags/trending");
+  }
+
+  /*
+  Purpose:
+Pages through the videos with one hashtag (newest first), and lists the most used hashtags of the last days.
   */
 
   async getVideo(id: string) {
@@ -88,24 +324,389 @@ Calls the fetch method with /videos/{id}.
 Returns a single IVideo object.
   */
 
+  async getAdjacentVideos(id: string) {
+    return this.fetch<AdjacentVideos>(`/videos/${id}/adjacent`);
+  }
+
+  /*
+  Purpose:
+Fetches the ids of the reels before and after a video in feed order (used for "next reel" navigation).
+  */
+
+  async getUserVideos(userId: string, options: { status?: VideoStatus; cursor?: string | null } = {}) {
+    const params = new URLSearchParams();
+    if (options.status) params.set("status", options.status);
+    if (options.cursor) params.set("cursor", options.cursor);
+    const query = params.toString();
+    return this.fetch<VideoPage>(`/users/${userId}/videos${query ? `?${query}` : ""}`);
+  }
+
+  /*
+  Purpose:
+Fetches one page of the videos of one user (used by the "My reels" page and the profiles), with the cursor of the previous page like getVideos. The owner also gets their drafts, scheduled, unlisted and private videos; status narrows the list to one of them.
+  */
+
+  async likeVideo(id: string) {
+    return this.fetch<LikeState>(`/videos/${id}/like`, { method: "POST" });
+  }
+
+  async unlikeVideo(id: string) {
+    return this.fetch<LikeState>(`/videos/${id}/like`, { method: "DELETE" });
+  }
+
+  /*
+  Purpose:
+Likes / unlikes a video as the logged in user.
+Returns the server's { liked, likeCount } so optimistic UI can be corrected.
+  */
+
+  async getComments(videoId: string, cursor?: string | null) {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    return this.fetch<CommentPage>(`/videos/${videoId}/comments${query}`);
+  }
+
+  async addComment(videoId: string, body: string, parentId?: string) {
+    return this.fetch<VideoComment>(`/videos/${videoId}/comments`, {
+      method: "POST",
+      body: { body, parentId },
+    });
+  }
+
+  async deleteComment(videoId: string, commentId: string) {
+    return this.fetch<{ message: string }>(
+      `/videos/${videoId}/comments/${commentId}`,
+      { method: "DELETE" }
+    );
+  }
+
+  /*
+  Purpose:
+Reads one page of a video's comments (top-level comments with their replies), posts a comment or reply, and deletes your own comment.
+  */
+
+  async getProfile(username: string) {
+    return this.fetch<UserProfile>(`/profiles/${encodeURIComponent(username)}`);
+  }
+
+  async getMyProfile() {
+    return this.fetch<UserProfile>("/profile");
+  }
+
+  async updateProfile(profileData: ProfileUpdateData) {
+    return this.fetch<UserProfile>("/profile", {
+      method: "PUT",
+      body: profileData,
+    });
+  }
+
+  /*
+  Purpose:
+Reads a public profile by username, and reads / updates the logged in user's own profile.
+  */
+
+  async followUser(userId: string) {
+    return this.fetch<FollowState>(`/users/${userId}/follow`, { method: "POST" });
+  }
+
+  async unfollowUser(userId: string) {
+    return this.fetch<FollowState>(`/users/${userId}/follow`, {
+      method: "DELETE",
+    });
+  }
+
+  async getFollowers(userId: string, cursor?: string | null) {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    return this.fetch<UserPage>(`/users/${userId}/followers${query}`);
+  }
+
+  async getFollowing(userId: string, cursor?: string | null) {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    return this.fetch<UserPage>(`/users/${userId}/following${query}`);
+  }
+
+  async getFollowingFeed(cursor?: string | null) {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    return this.fetch<VideoPage>(`/feed/following${query}`);
+  }
+
+  /*
+  Purpose:
+Follows / unfollows a creator, pages through someone's followers or followed users, and reads the Following feed (reels from followed creators only).
+  */
+
+  async verifyEmail(token: string) {
+    return this.fetch<{ message: string }>("/auth/verify-email", {
+      method: "POST",
+      body: { token },
+    });
+  }
+
+  async resendVerificationEmail() {
+    return this.fetch<{ message: string }>("/auth/verify-email/resend", {
+      method: "POST",
+    });
+  }
+
+  /*
+  Purpose:
+Confirms an email address with the token from the verification link, and asks for a new link (rate limited by the server).
+  */
+
+  async requestPasswordReset(email: string) {
+    return this.fetch<{ message: string }>("/auth/password-reset/request", {
+      method: "POST",
+      body: { email },
+    });
+  }
+
+  async confirmPasswordReset(token: string, password: string) {
+    return this.fetch<{ message: string }>("/auth/password-reset/confirm", {
+      method: "POST",
+      body: { token, password },
+    });
+  }
+
+  /*
+  Purpose:
+Asks for a password reset email, then sets the new password with the token from that email.
+  */
+
   async createVideo(videoData: VideoFormData) {
     return this.fetch<IVideo>("/videos", {
       method: "POST",
       body: videoData,
     });
   }
-}
 
-/*
-Purpose:
+  /*
+  Purpose:
 Creates a new video entry in the backend.
 How:
 Calls the fetch method with /videos, using the POST method and sending the video data as the request body.
 Returns the newly created IVideo object.
-*/
+  */
+
+  async createVideos(videos: VideoFormData[]) {
+    return this.fetch<BulkCreateResult>("/videos/bulk", {
+      method: "POST",
+      body: { videos },
+    });
+  }
+
+  /*
+  Purpose:
+Creates several videos at once (the bulk upload page).
+Each item is validated on its own: the result has one entry per item, in the same order, saying whether it was created or why not.
+  */
+
+  async updateVideo(id: string, videoData: VideoUpdateData) {
+    return this.fetch<IVideo>(`/videos/${id}`, {
+      method: "PUT",
+      body: videoData,
+    });
+  }
+
+  /*
+  Purpose:
+Updates the editable fields of a video the current user owns.
+  */
+
+  async deleteVideo(id: string) {
+    return this.fetch<{ message: string }>(`/videos/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  /*
+  Purpose:
+Deletes a video the current user owns (and its stored file).
+  */
+
+  async getAdminUsers(cursor?: string | null, query?: string) {
+    const params = new URLSearchParams();
+    if (cursor) params.set("cursor", cursor);
+    if (query) params.set("q", query);
+    return this.fetch<AdminUserPage>(`/admin/users?${params}`);
+  }
+
+  async updateAdminUser(id: string, update: { suspended?: boolean; role?: UserRole }) {
+    return this.fetch<AdminUser>(`/admin/users/${id}`, {
+      method: "PATCH",
+      body: update,
+    });
+  }
+
+  async getAdminVideos(cursor?: string | null, hiddenOnly = false) {
+    const params = new URLSearchParams();
+    if (cursor) params.set("cursor", cursor);
+    if (hiddenOnly) params.set("hidden", "true");
+    return this.fetch<AdminVideoPage>(`/admin/videos?${params}`);
+  }
+
+  async setVideoHidden(id: string, hidden: boolean) {
+    return this.fetch<AdminVideo>(`/admin/videos/${id}`, {
+      method: "PATCH",
+      body: { hidden },
+    });
+  }
+
+  async getReportQueue(cursor?: string | null, status: ReportStatus = "open") {
+    const params = new URLSearchParams({ status });
+    if (cursor) params.set("cursor", cursor);
+    return this.fetch<ReportQueuePage>(`/admin/reports?${params}`);
+  }
+
+  async handleReports(targetType: ReportTargetType, targetId: string, action: "resolve" | "dismiss") {
+    return this.fetch<{ handled: number }>(`/admin/reports/${targetId}`, {
+      method: "PATCH",
+      body: { targetType, action },
+    });
+  }
+
+  async getAuditLog(cursor?: string | null) {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+    return this.fetch<AuditPage>(`/admin/audit${query}`);
+  }
+
+  /*
+  Purpose:
+Moderation dashboard: lists accounts and videos, suspends / promotes accounts (admins only), hides / unhides videos, works through the report queue and reads the audit log (moderators and admins).
+  */
+
+  async getTwoFactorStatus() {
+    return this.fetch<TwoFactorStatus>("/security/two-factor");
+  }
+
+  async startTwoFactorSetup(password: string) {
+    return this.fetch<TwoFactorSetup>("/security/two-factor/setup", {
+      method: "POST",
+      body: { password },
+    });
+  }
+
+  async enableTwoFactor(code: string) {
+    return this.fetch<{ recoveryCodes: string[] }>("/security/two-factor/enable", {
+      method: "POST",
+      body: { code },
+    });
+  }
+
+  async disableTwoFactor(password: string) {
+    return this.fetch<{ message: string }>("/security/two-factor/disable", {
+      method: "POST",
+      body: { password },
+    });
+  }
+
+  async regenerateRecoveryCodes(password: string) {
+    return this.fetch<{ recoveryCodes: string[] }>("/security/two-factor/recovery-codes", {
+      method: "POST",
+      body: { password },
+    });
+  }
+
+  /*
+  Purpose:
+Two-factor authentication settings: enrollment (setup returns the QR code, enable confirms it with a first code), turning it off and getting new recovery codes. All but enable need the current password.
+  */
+
+  async startUpload(file: UploadSessionInput) {
+    return this.fetch<UploadSessionInfo>("/uploads", { method: "POST", body: file });
+  }
+
+  async getUpload(id: string) {
+    return this.fetch<UploadSessionInfo>(`/uploads/${id}`);
+  }
+
+  async completeUpload(id: string) {
+    return this.fetch<UploadResult>(`/uploads/${id}/complete`, { method: "POST" });
+  }
+
+  async cancelUpload(id: string) {
+    return this.fetch<{ message: string }>(`/uploads/${id}`, { method: "DELETE" });
+  }
+
+  /*
+  Purpose:
+The JSON side of chunked uploads: starting a session, asking where it stands, finishing and cancelling it. The chunks themselves are sent by lib/chunked-upload.ts, which needs XMLHttpRequest for byte progress.
+  */
+
+  async getAccount() {
+    return this.fetch<AccountSettings>("/account");
+  }
+
+  async changePassword(password: string, newPassword: string) {
+    return this.fetch<{ message: string }>("/account/password", {
+      method: "POST",
+      body: { password, newPassword },
+    });
+  }
+
+  async changeEmail(password: string, email: string) {
+    return this.fetch<{ message: string; pendingEmail: string }>("/account/email", {
+      method: "POST",
+      body: { password, email },
+    });
+  }
+
+  async cancelEmailChange() {
+    return this.fetch<{ message: string }>("/account/email", { method: "DELETE" });
+  }
+
+  async confirmEmailChange(token: string) {
+    return this.fetch<{ message: string }>("/account/email/confirm", {
+      method: "POST",
+      body: { token },
+    });
+  }
+
+  async deleteAccount(confirm: { password?: string; confirmation?: string }) {
+    return this.fetch<AccountDeletionResult>("/account", {
+      method: "DELETE",
+      body: confirm,
+    });
+  }
+
+  /*
+  Purpose:
+Account settings: changing the password (ends every session), changing the email (confirmed from a link sent to the new address) and deleting the account with everything in it.
+  */
+
+  async reportContent(report: ReportData) {
+    return this.fetch<{ message: string }>("/reports", {
+      method: "POST",
+      body: report,
+    });
+  }
+
+  /*
+  Purpose:
+Flags a video or comment for the moderators, with a reason picked from REPORT_REASONS (models/Report.ts).
+  */
+}
 
 export const apiClient = new ApiClient();
 
+// errors thrown by apiClient carry the raw response body, usually { "error": "..." } from our API routes
+export function getApiErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  try {
+    return JSON.parse(error.message).error || fallback;
+  } catch {
+    return error.message || fallback;
+  }
+}
+
+// the per-field messages of a 400 from a validated route ({ "error": "...", "fieldErrors": { ... } }), empty otherwise
+export function getApiFieldErrors(error: unknown): Record<string, string> {
+  if (!(error instanceof Error)) return {};
+  try {
+    return JSON.parse(error.message).fieldErrors ?? {};
+  } catch {
+    return {};
+  }
+}
+
 /*
 Behind the Scenes & Project Integration
 Centralized API Logic:
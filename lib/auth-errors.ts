@@ -0,0 +1,8 @@
+// error codes thrown by authorize() in lib/auth.ts that the login page reacts to, rather than just showing them
+export const TWO_FACTOR_REQUIRED = "TwoFactorRequired";
+export const INVALID_TWO_FACTOR_CODE = "Invalid authentication code";
+
+/*
+Kept apart from lib/auth.ts because the login page (a client component) needs them and must not import server code.
+TWO_FACTOR_REQUIRED: email and password are right but the account has two-factor authentication; the page asks for a code and signs in again with it.
+*/
@@ -1,8 +1,24 @@
 import { NextAuthOptions } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
+import GithubProvider from "next-auth/providers/github";
+import GoogleProvider from "next-auth/providers/google";
+import { UserRole } from "./constants";
 import { connectToDatabase } from "./db";
+import { INVALID_TWO_FACTOR_CODE, TWO_FACTOR_REQUIRED } from "./auth-errors";
+import { findOrCreateOAuthUser, oauthEndpoints } from "./oauth";
 import User from "@/models/User";
 import bcrypt from 'bcryptjs';
+import {
+    formatRetryAfter,
+    isRateLimited,
+    RATE_LIMITS,
+    rateLimit,
+    resetRateLimit,
+} from "./rate-limit";
+import { verifySecondFactor } from "./two-factor";
+import { normalizeEmail } from "./validation";
+
+const INVALID_CREDENTIALS = "Invalid email or password"; // same message for unknown email and wrong password, so logins can't reveal who is registered
 
 export const authOptions: NextAuthOptions = {
     providers: [
@@ -10,33 +26,61 @@ export const authOptions: NextAuthOptions = {
             name: "Credentials",
             credentials: {
                 email: {label: "Email", type: "text"},
-                password: {label: "Password", type: "password"}
+                password: {label: "Password", type: "password"},
+                otp: {label: "Authentication code", type: "text"} // only sent in the second step, for accounts with 2FA
             },
             async authorize(credentials){
                 if(!credentials?.email || !credentials?.password){
                     throw new Error("Missing email or password")
                 }
 
+                const email = normalizeEmail(credentials.email); // stored lowercase, typed any way
+                const failureKey = `login-failure:${email}`;
+
                 try {
+                    // temporary lockout: too many recent failures for this account, don't even check the password
+                    const lock = await isRateLimited(failureKey, RATE_LIMITS.loginFailuresPerAccount);
+                    if (!lock.allowed) {
+                        throw new Error(
+                            `Too many failed login attempts. Please try again in ${formatRetryAfter(lock.retryAfterSeconds)}.`
+                        );
+                    }
+
                     await connectToDatabase()
-                    const user = await User.findOne({email: credentials.email})
+                    const user = await User.findOne({ email })
+
+                    // if user is found then checking it's password (OAuth-only users have none)
+                    const isValid = user?.password
+                        ? await bcrypt.compare(credentials.password, user.password)
+                        : false;
 
-                    if(!user){
-                        throw new Error("No User found");
+                     if (!user || !isValid) {
+                        await rateLimit(failureKey, RATE_LIMITS.loginFailuresPerAccount); // counted for unknown emails too, so lockouts don't reveal anything either
+                        throw new Error(INVALID_CREDENTIALS);
                     }
 
-                    // if user is found then checking it's password
-                    const isValid = await bcrypt.compare(
-                        credentials.password,
-                        user.password
-                    );
+                    if (user.suspendedAt) { // only told after the right password, so it doesn't reveal who is registered
+                        throw new Error("This account has been suspended");
+                    }
 
-                     if (!isValid) {
-                        throw new Error("Invalid password");
+                    if (user.twoFactorEnabled) {
+                        if (!credentials.otp) {
+                            throw new Error(TWO_FACTOR_REQUIRED); // the login page asks for the code and calls signIn again
+                        }
+                        if (!(await verifySecondFactor(user, credentials.otp))) {
+                            await rateLimit(failureKey, RATE_LIMITS.loginFailuresPerAccount); // wrong codes count like wrong passwords
+                            throw new Error(INVALID_TWO_FACTOR_CODE);
+                        }
                     }
+
+                    await resetRateLimit(failureKey); // a successful login clears the failure count
+
                     return { // all these properties will be available in the session
                         id: user._id.toString(), // converting mongoose ObjectId to string
                         email: user.email,
+                        username: user.username,
+                        isVerified: user.isVerified ?? false,
+                        role: user.role ?? "user",
                     };
                     
                 } catch (error) {
@@ -44,18 +88,96 @@ export const authOptions: NextAuthOptions = {
                     throw error;
                 }
             }
-        })
+        }),
+        // OAuth providers are only offered when their credentials are configured in .env
+        ...(process.env.GITHUB_ID && process.env.GITHUB_SECRET
+            ? [GithubProvider({
+                clientId: process.env.GITHUB_ID,
+                clientSecret: process.env.GITHUB_SECRET,
+                authorization: { url: oauthEndpoints().github.authorization }, // merged with the provider defaults, the scope stays
+                token: oauthEndpoints().github.token,
+                userinfo: {
+                    url: oauthEndpoints().github.userinfo,
+                    // the profile alone: the verified email is looked up by lib/oauth.ts, on the configured API
+                    request: ({ client, tokens }) => client.userinfo(tokens.access_token!),
+                },
+            })]
+            : []),
+        ...(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET
+            ? [GoogleProvider({
+                clientId: process.env.GOOGLE_CLIENT_ID,
+                clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+                issuer: oauthEndpoints().google.issuer,
+                wellKnown: oauthEndpoints().google.wellKnown,
+            })]
+            : []),
     ],
     callbacks: {
-    async jwt({ token, user }) {
+    async signIn({ user, account, profile }) {
+      if (account?.type !== "oauth") return true; // credentials were already checked in authorize()
+
+      const result = await findOrCreateOAuthUser(account, profile);
+      if ("error" in result) {
+        return `/login?error=${result.error}`; // NextAuth redirects there instead of signing in
+      }
+
+      // the jwt callback gets this same object: replace the provider's user id with ours
+      Object.assign(user, {
+        id: result.user._id.toString(),
+        email: result.user.email,
+        username: result.user.username,
+        isVerified: result.user.isVerified ?? false,
+        role: result.user.role ?? "user",
+      });
+      return true;
+    },
+    async jwt({ token, user, trigger }) {
       if (user) {
         token.id = user.id;
+        token.username = user.username;
+        token.isVerified = user.isVerified;
+        token.role = user.role;
+        token.authTime = Date.now(); // when this login happened, compared with passwordChangedAt below
+        return token;
+      }
+
+      if (token.id) {
+        await connectToDatabase();
+        const dbUser = await User.findById(token.id)
+          .select("email passwordChangedAt username isVerified role suspendedAt")
+          .lean<{
+            email: string;
+            passwordChangedAt?: Date;
+            username?: string;
+            isVerified?: boolean;
+            role?: UserRole;
+            suspendedAt?: Date | null;
+          }>();
+
+        if (
+          !dbUser ||
+          dbUser.suspendedAt ||
+          (dbUser.passwordChangedAt?.getTime() ?? 0) > (token.authTime ?? 0)
+        ) {
+          // NextAuth clears the session cookie when this callback throws, which logs the user out
+          throw new Error("Session is no longer valid, please log in again");
+        }
+
+        if (trigger === "update") { // update() from useSession: pick up what may have changed since login
+          token.email = dbUser.email;
+          token.username = dbUser.username;
+          token.isVerified = dbUser.isVerified ?? false;
+        }
+        token.role = dbUser.role ?? "user"; // always refreshed, a demoted admin shouldn't keep the role until the next login
       }
       return token;
     },
     async session({ session, token }) {
       if (session.user) {
         session.user.id = token.id as string;
+        session.user.username = token.username;
+        session.user.isVerified = token.isVerified;
+        session.user.role = token.role;
       }
       return session;
     },
@@ -74,6 +196,15 @@ export const authOptions: NextAuthOptions = {
 /*
 Callbacks in NextAuth are special functions that let you control and customize the authentication flow at various stages, such as when a JWT is created or when a session is checked. They allow you to add, modify, or remove data from tokens and sessions.
 
+async signIn({ user, account, profile })
+Runs after a provider says who the user is, before any token is made.
+Credentials logins pass straight through (authorize() did the work). For GitHub/Google it finds or creates our User and links the identity (lib/oauth.ts), then swaps the provider's user id for our MongoDB _id, so the jwt callback below works the same for every provider.
+Returning a URL refuses the login and redirects there, e.g. /login?error=AccountSuspended.
+OAuth providers (both optional, each enabled when its variables are set in .env):
+GITHUB_ID, GITHUB_SECRET: callback URL {NEXTAUTH_URL}/api/auth/callback/github
+GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET: callback URL {NEXTAUTH_URL}/api/auth/callback/google
+GITHUB_URL, GITHUB_API_URL, GOOGLE_ISSUER (optional): where the providers live, for GitHub Enterprise or a mock server (see oauthEndpoints in lib/oauth.ts).
+
 async jwt({ token, user }) {
   if (user) {
     token.id = user.id;
@@ -85,6 +216,8 @@ What does it do?
 This callback runs whenever a JWT (JSON Web Token) is created or updated.
 If a user object is present (which happens right after a successful login), it adds the user's id to the JWT token.
 On subsequent requests, only the token is available (not user), so it just returns the token as-is.
+Except: it checks the user still exists, isn't suspended and hasn't reset their password since this login (token.authTime vs passwordChangedAt). If either fails the callback throws, NextAuth clears the session cookie and the user is logged out everywhere. This costs one small indexed query each time the session is read.
+The username, isVerified and role are copied the same way; the role is reloaded on every call, so promoting or demoting someone takes effect on their next request. When the client calls update() from useSession (after changing the username or the email, or after verifying the email), the callback runs with trigger "update" and reloads them from the database.
 Why is this needed?
 By default, NextAuth only puts a few fields (like email) in the JWT.
 If you want to include custom fields (like the user's database _id), you must add them yourself in this callback.
@@ -98,6 +231,7 @@ On future requests, only the token is available (no user), so the callback just
 async session({ session, token }) {
   if (session.user) {
     session.user.id = token.id as string;
+    session.user.username = token.username;
   }
   return session;
 }
@@ -108,7 +242,7 @@ By default, the session object sent to the client does not include the user's da
 If you want to use the user's ID in your frontend (for API calls, UI logic, etc.), you must add it to the session in this callback.
 Behind the scenes:
 When a client requests the session (e.g., via useSession()), NextAuth decodes the JWT and calls session({ session, token }).
-The callback copies the id from the token to the session's user object.
+The callback copies the id (and username) from the token to the session's user object.
 The session object is then returned to the client, now including user.id.
 
 */
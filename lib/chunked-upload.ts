@@ -0,0 +1,255 @@
+import { apiClient, getApiErrorMessage, UploadResult } from "./api-client";
+import { UploadFileType } from "./validation";
+
+export type UploadState =
+  | "uploading"
+  | "paused"
+  | "retrying"
+  | "finalizing"
+  | "done"
+  | "error"
+  | "cancelled";
+
+export type PendingUpload = {
+  sessionId: string;
+  fileName: string;
+  size: number;
+  fileType: UploadFileType;
+};
+
+interface ChunkedUploadCallbacks {
+  onProgress?: (loaded: number, total: number) => void;
+  onStateChange?: (state: UploadState, error?: string) => void;
+  onSuccess?: (result: UploadResult) => void;
+}
+
+const MAX_ATTEMPTS = 6; // per chunk, then the upload stops with an error (the user can retry)
+const STORAGE_PREFIX = "upload-session:";
+
+// thrown for answers that retrying can't fix (e.g. 400, 404)
+class FatalUploadError extends Error {}
+
+// an aborted request: the user paused or cancelled, not a failure
+class AbortedError extends Error {}
+
+// 1s, 2s, 4s, 8s... up to 30s, with some jitter so many clients don't retry in lockstep
+function backoffDelay(attempt: number) {
+  return Math.min(1000 * 2 ** (attempt - 1), 30_000) * (0.75 + Math.random() * 0.5);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// the same file picked again after a reload: name, size and modification date are all we can compare
+function fingerprint(file: File, fileType: UploadFileType) {
+  return `${STORAGE_PREFIX}${fileType}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// unfinished uploads saved in this browser, so the page can offer to resume them
+export function getPendingUploads(fileType: UploadFileType): PendingUpload[] {
+  const pending: PendingUpload[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(`${STORAGE_PREFIX}${fileType}:`)) continue;
+    try {
+      pending.push(JSON.parse(localStorage.getItem(key)!));
+    } catch {
+      localStorage.removeItem(key);
+    }
+  }
+  return pending;
+}
+
+export class ChunkedUpload {
+  private sessionId: string | null = null;
+  private chunkSize = 0;
+  private offset = 0;
+  private state: UploadState = "paused";
+  private request: XMLHttpRequest | null = null;
+  private runId = 0; // bumped by pause/cancel so a loop still sleeping between retries stops
+
+  constructor(
+    private file: File,
+    private fileType: UploadFileType,
+    private callbacks: ChunkedUploadCallbacks = {}
+  ) {}
+
+  get storageKey() {
+    return fingerprint(this.file, this.fileType);
+  }
+
+  private setState(state: UploadState, error?: string) {
+    this.state = state;
+    this.callbacks.onStateChange?.(state, error);
+  }
+
+  // starts the upload, or continues the session saved for this same file before a reload
+  async start() {
+    this.setState("uploading");
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      const session = saved
+        ? await apiClient.getUpload(JSON.parse(saved).sessionId).catch(() => null) // expired or cancelled elsewhere
+        : null;
+
+      if (session?.status === "complete" && session.result) {
+        // finished before the reload (only the response got lost): the file is stored, don't upload it again
+        this.sessionId = session.id;
+        this.finish(session.result);
+        return;
+      }
+
+      if (session) {
+        this.sessionId = session.id;
+        this.chunkSize = session.chunkSize;
+        this.offset = session.receivedBytes;
+      } else {
+        const created = await apiClient.startUpload({
+          fileName: this.file.name,
+          fileType: this.fileType,
+          mimeType: this.file.type,
+          size: this.file.size,
+        });
+        this.sessionId = created.id;
+        this.chunkSize = created.chunkSize;
+        this.offset = 0;
+        const pending: PendingUpload = {
+          sessionId: created.id,
+          fileName: this.file.name,
+          size: this.file.size,
+          fileType: this.fileType,
+        };
+        localStorage.setItem(this.storageKey, JSON.stringify(pending));
+      }
+    } catch (error) {
+      this.setState("error", getApiErrorMessage(error, "Failed to start upload"));
+      return;
+    }
+
+    this.callbacks.onProgress?.(this.offset, this.file.size);
+    await this.run(++this.runId);
+  }
+
+  pause() {
+    if (this.state !== "uploading" && this.state !== "retrying") return;
+    this.runId++;
+    this.setState("paused");
+    this.request?.abort();
+  }
+
+  // continues after pause() or an error, from wherever the server says it got to
+  async resume() {
+    if (!this.sessionId) return this.start();
+    if (this.state !== "paused" && this.state !== "error") return;
+
+    const runId = ++this.runId;
+    this.setState("uploading");
+    try {
+      const session = await apiClient.getUpload(this.sessionId);
+      if (session.status === "complete" && session.result) return this.finish(session.result);
+      this.offset = session.receivedBytes;
+    } catch (error) {
+      this.setState("error", getApiErrorMessage(error, "Failed to resume upload"));
+      return;
+    }
+    await this.run(runId);
+  }
+
+  async cancel() {
+    if (this.state === "done") return; // the file is stored, nothing to throw away
+    this.runId++;
+    this.request?.abort();
+    this.setState("cancelled");
+    localStorage.removeItem(this.storageKey);
+    if (this.sessionId) {
+      await apiClient.cancelUpload(this.sessionId).catch((error) => {
+        console.error("Error cancelling upload:", error); // the server drops it when it expires anyway
+      });
+    }
+  }
+
+  private async run(runId: number) {
+    let attempt = 0;
+
+    while (this.offset < this.file.size) {
+      if (runId !== this.runId) return; // paused or cancelled meanwhile
+      const end = Math.min(this.offset + this.chunkSize, this.file.size);
+
+      try {
+        this.offset = await this.sendChunk(this.offset, end);
+        attempt = 0;
+        if (this.state === "retrying") this.setState("uploading");
+      } catch (error) {
+        if (error instanceof AbortedError || runId !== this.runId) return;
+        attempt++;
+        if (error instanceof FatalUploadError || attempt >= MAX_ATTEMPTS) {
+          this.setState("error", error instanceof Error ? error.message : "Upload failed");
+          return;
+        }
+        this.setState("retrying");
+        await sleep(backoffDelay(attempt));
+      }
+    }
+
+    if (runId !== this.runId) return;
+    this.setState("finalizing");
+    try {
+      this.finish(await apiClient.completeUpload(this.sessionId!));
+    } catch (error) {
+      this.setState("error", getApiErrorMessage(error, "Failed to complete upload"));
+    }
+  }
+
+  private finish(result: UploadResult) {
+    localStorage.removeItem(this.storageKey);
+    this.callbacks.onProgress?.(this.file.size, this.file.size);
+    this.setState("done");
+    this.callbacks.onSuccess?.(result);
+  }
+
+  // sends file[start, end) and resolves with the server's receivedBytes
+  private sendChunk(start: number, end: number) {
+    return new Promise<number>((resolve, reject) => {
+      const request = new XMLHttpRequest();
+      this.request = request;
+      request.open("PUT", `/api/uploads/${this.sessionId}?offset=${start}`);
+      request.setRequestHeader("Content-Type", "application/octet-stream");
+
+      request.upload.onprogress = (event) => {
+        this.callbacks.onProgress?.(start + event.loaded, this.file.size);
+      };
+      request.onabort = () => reject(new AbortedError());
+      request.onerror = () => reject(new Error("Network error, retrying...")); // offline, connection dropped...
+      request.onload = () => {
+        let body: { receivedBytes?: number; error?: string } = {};
+        try {
+          body = JSON.parse(request.responseText);
+        } catch {}
+
+        // 409: the server has a different offset than we thought (e.g. a chunk arrived but its response didn't), continue from there
+        if ((request.status === 200 || request.status === 409) && typeof body.receivedBytes === "number") {
+          resolve(body.receivedBytes);
+        } else if (request.status >= 500 || request.status === 429) {
+          reject(new Error(body.error || "Server error, retrying..."));
+        } else {
+          reject(new FatalUploadError(body.error || "Upload failed"));
+        }
+      };
+
+      request.send(this.file.slice(start, end));
+    });
+  }
+}
+
+/*
+Browser side of chunked uploads (the server side is lib/upload-storage.ts and app/api/uploads).
+Why chunks?
+Sending a whole video in one request means a dropped mobile connection at 95% starts over from zero. Here the file goes in UPLOAD_CHUNK_SIZE pieces, and only the current piece is ever lost.
+Lifecycle:
+start(): creates an upload session on the server and remembers it in localStorage, keyed by the file's name, size and modification date.
+Each chunk is a PUT with its byte offset; XMLHttpRequest (not fetch) because only it reports upload progress, so the progress is in bytes, not in chunks.
+Failed chunks are retried with exponential backoff (1s, 2s, 4s... capped at 30s) up to MAX_ATTEMPTS times; answers like 400 or 404 stop right away.
+Once the last byte is in, POST /complete hands the file to the storage and the result ({ uploadId, fileId, filePath, url, thumbnailUrl }) goes to onSuccess.
+pause() / resume(): pause aborts the chunk in flight; resume asks the server how much it has and continues from there.
+After a page reload: the File object is gone, so the user picks the same file again; start() finds the saved session and continues instead of starting over. getPendingUploads() lists those sessions for the UI.
+cancel(): stops, forgets the saved session and deletes what the server staged.
+*/
@@ -0,0 +1,39 @@
+export const VIDEO_DIMENSIONS = {
+  width: 1080,
+  height: 1920,
+} as const;
+
+export const USER_ROLES = ["user", "moderator", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const VIDEO_STATUSES = ["draft", "scheduled", "published", "unlisted", "private"] as const;
+export type VideoStatus = (typeof VIDEO_STATUSES)[number];
+
+export const COMMENT_MAX_LENGTH = 1000;
+
+// who hid a video or comment: enough user reports on their own, or a moderator
+export const HIDDEN_BY = ["reports", "moderator"] as const;
+export type HiddenBy = (typeof HIDDEN_BY)[number];
+
+export const REPORT_TARGET_TYPES = ["video", "comment"] as const;
+export const REPORT_REASONS = [
+  "spam",
+  "harassment",
+  "hate",
+  "violence",
+  "nudity",
+  "misinformation",
+  "other",
+] as const;
+export const REPORT_STATUSES = ["open", "resolved", "dismissed"] as const;
+export const REPORT_DETAILS_MAX_LENGTH = 500;
+
+export type ReportTargetType = (typeof REPORT_TARGET_TYPES)[number];
+export type ReportReason = (typeof REPORT_REASONS)[number];
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+/*
+Enums and limits shared by the models and the browser.
+The models (models/User.ts, models/Video.ts, models/Comment.ts, models/Report.ts) load mongoose, so client components and lib/validation.ts import these values from here instead; the models re-export them for server code.
+This file must not import anything.
+*/
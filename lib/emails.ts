@@ -0,0 +1,42 @@
+import { sendMail } from "./mail";
+
+export function appUrl(path: string, origin?: string) {
+  return new URL(path, process.env.NEXTAUTH_URL || origin).toString();
+}
+
+export async function sendVerificationEmail(to: string, link: string) {
+  await sendMail({
+    to,
+    subject: "Verify your ReelsPro email",
+    text: `Welcome to ReelsPro!\n\nConfirm your email address to start publishing reels:\n${link}\n\nThis link expires in 24 hours. If you didn't create an account, you can ignore this email.`,
+  });
+}
+
+export async function sendPasswordResetEmail(to: string, link: string) {
+  await sendMail({
+    to,
+    subject: "Reset your ReelsPro password",
+    text: `Someone (hopefully you) asked to reset the password of your ReelsPro account.\n\nChoose a new password here:\n${link}\n\nThis link expires in 1 hour and can only be used once. If you didn't ask for it, you can ignore this email; your password won't change.`,
+  });
+}
+
+export async function sendEmailChangeEmail(to: string, link: string) {
+  await sendMail({
+    to,
+    subject: "Confirm your new ReelsPro email",
+    text: `Someone (hopefully you) asked to use this address for their ReelsPro account.\n\nConfirm the change here:\n${link}\n\nThis link expires in 24 hours. Until then, the account keeps its current email. If you didn't ask for it, you can ignore this email.`,
+  });
+}
+
+export async function sendEmailChangedNotice(to: string, newEmail: string) {
+  await sendMail({
+    to,
+    subject: "Your ReelsPro email was changed",
+    text: `The email of your ReelsPro account was changed to ${newEmail}. This address won't receive emails from us anymore.\n\nIf you didn't make this change, reset your password and contact us right away.`,
+  });
+}
+
+/*
+The emails the app sends, built on sendMail (lib/mail.ts).
+appUrl builds absolute links from NEXTAUTH_URL (the public URL of the app), falling back to the origin of the current request.
+*/
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "./db";
+import { afterCursor, decodeCursor, parseLimit, toPage } from "./pagination";
+import Follow from "@/models/Follow";
+
+type FollowDirection = "followers" | "following";
+
+type PopulatedFollow = {
+  _id: mongoose.Types.ObjectId;
+  createdAt: Date;
+  follower?: { _id: mongoose.Types.ObjectId; username?: string; avatarUrl?: string } | null;
+  following?: { _id: mongoose.Types.ObjectId; username?: string; avatarUrl?: string } | null;
+};
+
+// ids of everyone the user follows, used to build the Following feed
+export async function getFollowedIds(userId: string) {
+  const follows = await Follow.find({ follower: userId })
+    .select("following")
+    .lean<{ following: mongoose.Types.ObjectId }[]>();
+  return follows.map((follow) => follow.following);
+}
+
+// shared GET handler for /api/users/:id/followers and /api/users/:id/following
+export async function listFollows(
+  request: NextRequest,
+  userId: string,
+  direction: FollowDirection
+) {
+  try {
+    if (!mongoose.isValidObjectId(userId)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const limit = parseLimit(searchParams.get("limit"));
+    const cursor = searchParams.get("cursor");
+    const position = cursor ? decodeCursor(cursor) : null;
+
+    if (cursor && !position) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    // followers of X are the edges pointing at X, and we show the other end of each edge
+    const [matchField, userField] =
+      direction === "followers"
+        ? (["following", "follower"] as const)
+        : (["follower", "following"] as const);
+
+    await connectToDatabase();
+    const follows = await Follow.find({
+      [matchField]: userId,
+      ...(position && afterCursor(position)),
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate(userField, "username avatarUrl")
+      .lean<PopulatedFollow[]>();
+
+    const { items, nextCursor } = toPage(follows, limit);
+    const users = items
+      .map((follow) => follow[userField])
+      .filter((user) => user); // skips edges whose user no longer exists
+
+    return NextResponse.json({ users, nextCursor });
+  } catch (error) {
+    console.error(`Error fetching ${direction}:`, error);
+    return NextResponse.json(
+      { error: `Failed to fetch ${direction}` },
+      { status: 500 }
+    );
+  }
+}
+
+/*
+listFollows pages through one side of the follow graph, most recent follow first, with the same cursor contract as the video feeds.
+Each item is the public part of the other user: { _id, username, avatarUrl }.
+*/
@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+import Like from "@/models/Like";
+import { IVideo } from "@/models/Video";
+
+// adds likedByMe to each video for the logged in user (false for everyone when logged out)
+export async function withLikedState<T extends IVideo>(
+  videos: T[],
+  userId?: string
+): Promise<T[]> {
+  if (!userId || videos.length === 0) {
+    return videos.map((video) => ({ ...video, likedByMe: false }));
+  }
+
+  const likes = await Like.find({
+    user: userId,
+    video: { $in: videos.map((video) => video._id) },
+  })
+    .select("video")
+    .lean<{ video: mongoose.Types.ObjectId }[]>();
+  const liked = new Set(likes.map((like) => like.video.toString()));
+
+  return videos.map((video) => ({
+    ...video,
+    likedByMe: liked.has(video._id!.toString()),
+  }));
+}
+
+/*
+withLikedState runs one query per page of videos (not one per video), using the { user, video } unique index on likes.
+Used by every API route that returns videos to the client, so the like button on each card knows its initial state.
+*/
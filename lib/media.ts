@@ -0,0 +1,49 @@
+export type StorageProviderName = "imagekit" | "local";
+
+export type MediaTransformation = {
+  width?: number;
+  height?: number;
+  quality?: number;
+};
+
+// which storage serves the media; NEXT_PUBLIC_ so the browser builds the same URLs as the server
+export const STORAGE_PROVIDER: StorageProviderName =
+  process.env.NEXT_PUBLIC_STORAGE_PROVIDER === "local" ? "local" : "imagekit";
+
+// { width: 1080, height: 1920 } -> "w-1080,h-1920", ImageKit's URL transformation syntax
+function imagekitTransformation({ width, height, quality }: MediaTransformation) {
+  return [width && `w-${width}`, height && `h-${height}`, quality && `q-${quality}`]
+    .filter(Boolean)
+    .join(",");
+}
+
+// an ImageKit file path as a full URL on our ImageKit endpoint, resized/re-encoded on the fly by ImageKit
+export function imagekitDeliveryUrl(path: string, transformation?: MediaTransformation) {
+  const endpoint = (process.env.NEXT_PUBLIC_URL_ENDPOINT ?? "").replace(/\/$/, "");
+  const url = `${endpoint}/${path.replace(/^\//, "")}`;
+  const tr = transformation ? imagekitTransformation(transformation) : "";
+  if (!tr) return url;
+  if (url.includes("?tr=")) return `${url}:${tr}`; // chained after the transformation already in the path (e.g. a frame thumbnail)
+  return `${url}${url.includes("?") ? "&" : "?"}tr=${tr}`;
+}
+
+// a file of the local provider, served by app/api/media; files are delivered as they are, without transformations
+export function localDeliveryUrl(path: string) {
+  return `/api/media/${path.replace(/^\//, "")}`;
+}
+
+// the URL to show a stored file (a path like "/videos/a.mp4"); full URLs are returned as they are
+export function mediaUrl(path: string, transformation?: MediaTransformation) {
+  if (/^https?:\/\//.test(path)) return path;
+  return STORAGE_PROVIDER === "local"
+    ? localDeliveryUrl(path)
+    : imagekitDeliveryUrl(path, transformation);
+}
+
+/*
+Media URLs, usable from both client and server code (the server side of the storage is lib/storage.ts).
+The database only keeps file paths (videoUrl, thumbnailUrl, avatarUrl), mediaUrl turns them into something a <video> or <img> can load.
+NEXT_PUBLIC_STORAGE_PROVIDER picks the storage for the whole app:
+imagekit (default): URLs on NEXT_PUBLIC_URL_ENDPOINT, with ImageKit resizing videos and images to the requested size.
+local: URLs on our own /api/media route, for development and tests without an ImageKit account. Transformations are ignored there, the original file is sent.
+*/
@@ -0,0 +1,92 @@
+import mongoose from "mongoose";
+import Comment from "@/models/Comment";
+import ModerationLog, {
+  ModerationAction,
+  ModerationTargetType,
+} from "@/models/ModerationLog";
+import Report, { ReportTargetType } from "@/models/Report";
+import Video from "@/models/Video";
+
+const DEFAULT_REPORT_HIDE_THRESHOLD = 5;
+
+// how many open reports from different users hide an item until a moderator looks at it
+export function getReportHideThreshold() {
+  const threshold = Number(process.env.REPORT_HIDE_THRESHOLD);
+  return Number.isInteger(threshold) && threshold > 0
+    ? threshold
+    : DEFAULT_REPORT_HIDE_THRESHOLD;
+}
+
+export async function logModerationAction(entry: {
+  actor: string | null; // null for actions the app takes on its own
+  action: ModerationAction;
+  targetType: ModerationTargetType;
+  target: string | mongoose.Types.ObjectId;
+  details?: string;
+}) {
+  await ModerationLog.create(entry);
+}
+
+// hides a video or comment on a moderator's decision, returning false when it doesn't exist
+export async function hideTarget(targetType: ReportTargetType, targetId: string) {
+  const TargetModel = targetType === "video" ? Video : Comment;
+  const result = await TargetModel.updateOne(
+    { _id: targetId },
+    { $set: { isHidden: true, hiddenBy: "moderator" } }
+  );
+  return result.matchedCount > 0;
+}
+
+// brings back an item the reports hid on their own; one a moderator hid stays hidden.
+// Returns whether the item is visible now, null when it doesn't exist
+export async function unhideReportedTarget(targetType: ReportTargetType, targetId: string) {
+  const TargetModel = targetType === "video" ? Video : Comment;
+  await TargetModel.updateOne(
+    { _id: targetId, hiddenBy: "reports" },
+    { $set: { isHidden: false, hiddenBy: null } }
+  );
+  const item = await TargetModel.findById(targetId).select("isHidden").lean<{ isHidden?: boolean }>();
+  return item ? !item.isHidden : null;
+}
+
+// called after each new report: hides the item once it has enough open reports
+export async function hideIfOverThreshold(
+  targetType: ReportTargetType,
+  targetId: string
+) {
+  const openReports = await Report.countDocuments({
+    targetType,
+    target: targetId,
+    status: "open",
+  });
+  if (openReports < getReportHideThreshold()) return false;
+
+  const TargetModel = targetType === "video" ? Video : Comment;
+  // only the request that actually flips isHidden logs it, concurrent reports don't add duplicate entries
+  const result = await TargetModel.updateOne(
+    { _id: targetId, isHidden: { $ne: true } },
+    { $set: { isHidden: true, hiddenBy: "reports" } }
+  );
+  if (result.modifiedCount === 0) return false;
+
+  await logModerationAction({
+    actor: null,
+    action: targetType === "video" ? "video.hide" : "comment.hide",
+    targetType,
+    target: targetId,
+    details: `auto-hidden after ${openReports} reports`,
+  });
+  return true;
+}
+
+/*
+Moderation helpers shared by the report route and the admin routes.
+Auto-hide:
+Every report is one user (a user can only have one open report per item, see models/Report.ts), so the threshold is "this many different users flagged it".
+Set REPORT_HIDE_THRESHOLD in .env to change it (default 5). A hidden item disappears from GET /api/videos and every other public listing (lib/video-visibility.ts) until a moderator dismisses the reports.
+Hide source:
+Video.hiddenBy / Comment.hiddenBy record who hid the item. Dismissing reports only brings back items the reports hid ("reports"); one a moderator hid ("moderator": resolved reports, or PATCH /api/admin/videos/:id) stays hidden.
+Items hidden before hiddenBy existed have none and are left alone too; they can be unhidden from the videos dashboard.
+Audit trail:
+Every moderation action, by a person or automatic, goes through logModerationAction() into the moderationlogs collection, which the dashboard shows as the audit log.
+*/
@@ -0,0 +1,264 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type { Account as AuthAccount, Profile } from "next-auth";
+import type { OAuthUser, OAuthUserStore } from "./oauth";
+
+type GithubIdentity = {
+  id: number;
+  login: string;
+  emails: { email: string; primary: boolean; verified: boolean }[];
+};
+
+type StoredUser = OAuthUser & { password?: string };
+
+// what GitHub would answer, per authorization code (one code = one GitHub account)
+const identities: Record<string, GithubIdentity> = {
+  "code-alice": {
+    id: 1,
+    login: "alice",
+    emails: [{ email: "Alice@Example.com", primary: true, verified: true }],
+  },
+  "code-bob": {
+    id: 2,
+    login: "bob",
+    emails: [{ email: "bob@example.com", primary: true, verified: true }],
+  },
+  "code-mallory": {
+    id: 3,
+    login: "mallory",
+    emails: [{ email: "victim@example.com", primary: true, verified: false }],
+  },
+};
+
+// a local stand-in for github.com and api.github.com: the token exchange, the profile and the email list
+function startMockGithub() {
+  const server = createServer((request, response) => {
+    const url = new URL(request.url!, "http://localhost");
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.method === "POST" && url.pathname === "/login/oauth/access_token") {
+      const code = url.searchParams.get("code") ?? "";
+      return identities[code] ? send(200, { access_token: `token-${code}`, token_type: "bearer" }) : send(401, {});
+    }
+
+    // the access token is "token-<code>", so it tells which identity is asking
+    const token = request.headers.authorization?.replace(/^Bearer /, "").replace(/^token-/, "") ?? "";
+    const identity = identities[token];
+    if (!identity) return send(401, { message: "Bad credentials" });
+
+    if (url.pathname === "/user") return send(200, { id: identity.id, login: identity.login, email: null });
+    if (url.pathname === "/user/emails") return send(200, identity.emails);
+    send(404, {});
+  });
+
+  return new Promise<Server>((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+class MemoryOAuthUserStore implements OAuthUserStore {
+  users: StoredUser[] = [];
+  links: { userId: string; provider: string; providerAccountId: string }[] = [];
+
+  async findLinkedUser(provider: string, providerAccountId: string) {
+    const link = this.links.find((l) => l.provider === provider && l.providerAccountId === providerAccountId);
+    return this.users.find((user) => user._id.toString() === link?.userId) ?? null;
+  }
+
+  async findUserByEmail(email: string) {
+    return this.users.find((user) => user.email === email) ?? null;
+  }
+
+  async isUsernameTaken(username: string) {
+    return this.users.some((user) => user.username === username);
+  }
+
+  async createUser(user: { email: string; username?: string }) {
+    return this.addUser({ ...user, isVerified: true });
+  }
+
+  async claimUnverifiedUser(user: OAuthUser) {
+    const stored = this.users.find((u) => u._id.toString() === user._id.toString())!;
+    delete stored.password;
+    stored.isVerified = true;
+    return stored;
+  }
+
+  async linkAccount(userId: string, provider: string, providerAccountId: string) {
+    if (this.links.some((l) => l.provider === provider && l.providerAccountId === providerAccountId)) return;
+    this.links.push({ userId, provider, providerAccountId });
+  }
+
+  addUser(user: Omit<StoredUser, "_id">) {
+    const stored = { _id: `user-${this.users.length + 1}`, ...user };
+    this.users.push(stored);
+    return stored;
+  }
+}
+
+type SignInResult = Awaited<ReturnType<typeof import("./oauth").findOrCreateOAuthUser>>;
+
+// the user of a successful sign-in, failing the test otherwise
+function userOf(result: SignInResult) {
+  assert.ok(result.user, `expected a user, got ${JSON.stringify(result)}`);
+  return result.user;
+}
+
+describe("OAuth sign-in with account linking", () => {
+  let server: Server;
+  let store: MemoryOAuthUserStore;
+  let oauth: typeof import("./oauth");
+
+  // signs in the way NextAuth does: code -> token -> profile, then hands both to findOrCreateOAuthUser
+  async function signInWithGithub(code: string) {
+    const endpoints = oauth.oauthEndpoints().github;
+    const tokenResponse = await fetch(`${endpoints.token}?code=${code}`, { method: "POST" });
+    const { access_token } = await tokenResponse.json();
+    const profile = await (
+      await fetch(endpoints.userinfo, { headers: { Authorization: `Bearer ${access_token}` } })
+    ).json();
+
+    const account: AuthAccount = {
+      provider: "github",
+      type: "oauth",
+      providerAccountId: String(profile.id),
+      access_token,
+    };
+    return oauth.findOrCreateOAuthUser(account, profile as Profile);
+  }
+
+  before(async () => {
+    server = await startMockGithub();
+    const mockUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.GITHUB_URL = mockUrl;
+    process.env.GITHUB_API_URL = `${mockUrl}/`; // a trailing slash must not matter
+    process.env.MONGODB_URI ??= "mongodb://127.0.0.1:1/unused"; // lib/db.ts wants one, the memory store never connects
+    oauth = await import("./oauth");
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    store = new MemoryOAuthUserStore();
+    oauth.setOAuthUserStore(store);
+  });
+
+  it("points the GitHub endpoints at the configured servers", () => {
+    const { github } = oauth.oauthEndpoints();
+    assert.match(github.token, /^http:\/\/127\.0\.0\.1:\d+\/login\/oauth\/access_token$/);
+    assert.match(github.emails, /^http:\/\/127\.0\.0\.1:\d+\/user\/emails$/);
+  });
+
+  it("creates a verified user without a password on the first sign-in", async () => {
+    const result = await signInWithGithub("code-alice");
+
+    const user = userOf(result);
+    assert.equal(user.email, "alice@example.com"); // normalized like every stored email
+    assert.equal(user.username, "alice");
+    assert.equal(user.isVerified, true);
+    assert.deepEqual(store.links, [{ userId: user._id.toString(), provider: "github", providerAccountId: "1" }]);
+  });
+
+  it("signs in as the same user the next time", async () => {
+    const first = await signInWithGithub("code-alice");
+    const second = await signInWithGithub("code-alice");
+
+    assert.equal(userOf(second)._id, userOf(first)._id);
+    assert.equal(store.users.length, 1);
+    assert.equal(store.links.length, 1);
+  });
+
+  it("links to an existing verified user with the same email instead of creating another one", async () => {
+    const existing = store.addUser({ email: "alice@example.com", username: "alice_w", password: "hash", isVerified: true });
+
+    const result = await signInWithGithub("code-alice");
+
+    const user = userOf(result);
+    assert.equal(user._id, existing._id);
+    assert.equal(existing.password, "hash"); // their own, verified, password keeps working
+    assert.equal(store.users.length, 1);
+  });
+
+  it("drops the password of an unverified user with the same email when linking", async () => {
+    const squatter = store.addUser({ email: "alice@example.com", username: "alice_w", password: "hash", isVerified: false });
+
+    const result = await signInWithGithub("code-alice");
+
+    const user = userOf(result);
+    assert.equal(user._id, squatter._id);
+    assert.equal(squatter.password, undefined);
+    assert.equal(squatter.isVerified, true);
+  });
+
+  it("keeps an identity on the user it is linked to, even when another user has its email", async () => {
+    const linked = store.addUser({ email: "old-alice@example.com", username: "alice_old", isVerified: true });
+    store.addUser({ email: "alice@example.com", username: "someone", isVerified: true });
+    store.links.push({ userId: linked._id, provider: "github", providerAccountId: "1" });
+
+    const result = await signInWithGithub("code-alice");
+
+    const user = userOf(result);
+    assert.equal(user._id, linked._id);
+  });
+
+  it("picks another username when the GitHub login is taken", async () => {
+    store.addUser({ email: "someone@example.com", username: "bob", isVerified: true });
+
+    const result = await signInWithGithub("code-bob");
+
+    const user = userOf(result);
+    assert.match(user.username ?? "", /^bob\d{4}$/);
+  });
+
+  it("refuses an unverified GitHub email instead of matching it", async () => {
+    const victim = store.addUser({ email: "victim@example.com", username: "victim", password: "hash", isVerified: true });
+
+    const result = await signInWithGithub("code-mallory");
+
+    assert.deepEqual(result, { error: "OAuthEmailUnverified" });
+    assert.equal(store.links.length, 0);
+    assert.equal(victim.password, "hash");
+  });
+
+  it("refuses to link an account with two-factor authentication", async () => {
+    store.addUser({ email: "alice@example.com", username: "alice", password: "hash", isVerified: true, twoFactorEnabled: true });
+
+    const result = await signInWithGithub("code-alice");
+
+    assert.deepEqual(result, { error: "OAuthTwoFactorEnabled" });
+    assert.equal(store.links.length, 0);
+  });
+
+  it("refuses a linked identity once its user turned on two-factor authentication", async () => {
+    const user = store.addUser({ email: "alice@example.com", username: "alice", password: "hash", isVerified: true, twoFactorEnabled: true });
+    store.links.push({ userId: user._id, provider: "github", providerAccountId: "1" });
+
+    assert.deepEqual(await signInWithGithub("code-alice"), { error: "OAuthTwoFactorEnabled" });
+  });
+
+  it("matches Google users by email only when Google verified it", async () => {
+    const account: AuthAccount = { provider: "google", type: "oauth", providerAccountId: "g-1" };
+    const profile = { email: "carol@example.com", name: "Carol", email_verified: false } as Profile;
+
+    assert.deepEqual(await oauth.findOrCreateOAuthUser(account, profile), { error: "OAuthEmailUnverified" });
+
+    const result = await oauth.findOrCreateOAuthUser(account, { ...profile, email_verified: true } as Profile);
+    const user = userOf(result);
+    assert.equal(user.username, "carol");
+  });
+
+  it("refuses suspended users", async () => {
+    store.addUser({ email: "alice@example.com", username: "alice", isVerified: true, suspendedAt: new Date() });
+
+    assert.deepEqual(await signInWithGithub("code-alice"), { error: "AccountSuspended" });
+  });
+});
+
+/*
+Tests for lib/oauth.ts, run with `npm test` (node:test, TypeScript through tsx).
+A local HTTP server plays GitHub (token exchange, /user, /user/emails), and GITHUB_URL / GITHUB_API_URL point the app at it, the same way GitHub Enterprise is configured.
+Users and links live in memory (MemoryOAuthUserStore, plugged in with setOAuthUserStore), so no MongoDB is needed.
+*/
@@ -0,0 +1,201 @@
+import { Account as AuthAccount, Profile } from "next-auth";
+import { GithubEmail } from "next-auth/providers/github";
+import { GoogleProfile } from "next-auth/providers/google";
+import { UserRole } from "./constants";
+import { connectToDatabase } from "./db";
+import { suggestUsername } from "./username";
+import { normalizeEmail } from "./validation";
+import Account from "@/models/Account";
+import User from "@/models/User";
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// error codes the login page turns into messages (sent as /login?error=...)
+export type OAuthLinkError = "OAuthEmailUnverified" | "OAuthTwoFactorEnabled" | "AccountSuspended";
+
+// what the sign-in needs to know about a user, whichever store it comes from
+export type OAuthUser = {
+  _id: { toString(): string };
+  email: string;
+  username?: string;
+  isVerified?: boolean;
+  role?: UserRole;
+  suspendedAt?: Date | null;
+  twoFactorEnabled?: boolean;
+};
+
+export interface OAuthUserStore {
+  findLinkedUser(provider: string, providerAccountId: string): Promise<OAuthUser | null>;
+  findUserByEmail(email: string): Promise<OAuthUser | null>;
+  isUsernameTaken(username: string): Promise<boolean>;
+  // a verified user without a password
+  createUser(user: { email: string; username?: string }): Promise<OAuthUser>;
+  // marks the user verified and drops their password and its sessions, see findOrCreateOAuthUser
+  claimUnverifiedUser(user: OAuthUser): Promise<OAuthUser>;
+  // linking an identity twice (two concurrent callbacks) must not fail
+  linkAccount(userId: string, provider: string, providerAccountId: string): Promise<void>;
+}
+
+export class MongoOAuthUserStore implements OAuthUserStore {
+  async findLinkedUser(provider: string, providerAccountId: string) {
+    await connectToDatabase();
+    const link = await Account.findOne({ provider, providerAccountId }).select("user").lean<{ user: string }>();
+    return link ? User.findById(link.user) : null;
+  }
+
+  async findUserByEmail(email: string) {
+    await connectToDatabase();
+    return User.findOne({ email });
+  }
+
+  async isUsernameTaken(username: string) {
+    await connectToDatabase();
+    return Boolean(await User.exists({ username }));
+  }
+
+  async createUser({ email, username }: { email: string; username?: string }) {
+    await connectToDatabase();
+    return User.create({ email, username, isVerified: true });
+  }
+
+  async claimUnverifiedUser(user: OAuthUser) {
+    await connectToDatabase();
+    const claimed = await User.findByIdAndUpdate(
+      user._id,
+      { $unset: { password: 1 }, passwordChangedAt: new Date(), isVerified: true },
+      { new: true }
+    );
+    return claimed ?? user;
+  }
+
+  async linkAccount(userId: string, provider: string, providerAccountId: string) {
+    await connectToDatabase();
+    try {
+      await Account.create({ user: userId, provider, providerAccountId });
+    } catch (error) {
+      // a concurrent callback for the same identity already linked it
+      if ((error as { code?: number }).code !== DUPLICATE_KEY_ERROR) throw error;
+    }
+  }
+}
+
+let store: OAuthUserStore | null = null;
+
+// plugs in another store (e.g. an in-memory one in tests)
+export function setOAuthUserStore(oauthUserStore: OAuthUserStore) {
+  store = oauthUserStore;
+}
+
+function getOAuthUserStore() {
+  store ??= new MongoOAuthUserStore();
+  return store;
+}
+
+// "https://github.com/" -> "https://github.com"
+const baseUrl = (value: string | undefined, fallback: string) => (value || fallback).replace(/\/+$/, "");
+
+// the providers' URLs, read from .env on every call: GitHub Enterprise, or a local mock server in tests
+export function oauthEndpoints() {
+  const github = baseUrl(process.env.GITHUB_URL, "https://github.com");
+  const githubApi = baseUrl(process.env.GITHUB_API_URL, "https://api.github.com");
+  const googleIssuer = baseUrl(process.env.GOOGLE_ISSUER, "https://accounts.google.com");
+
+  return {
+    github: {
+      authorization: `${github}/login/oauth/authorize`,
+      token: `${github}/login/oauth/access_token`,
+      userinfo: `${githubApi}/user`,
+      emails: `${githubApi}/user/emails`,
+    },
+    google: {
+      issuer: googleIssuer,
+      wellKnown: `${googleIssuer}/.well-known/openid-configuration`,
+    },
+  };
+}
+
+// only an address the provider says is verified may be matched against our users, otherwise anyone could claim any email
+async function getVerifiedEmail(account: AuthAccount, profile?: Profile) {
+  if (account.provider === "google") {
+    const googleProfile = profile as GoogleProfile | undefined;
+    return googleProfile?.email_verified ? googleProfile.email : null;
+  }
+
+  if (account.provider === "github") {
+    // the profile only has the public email (if any), the verified flags come from a separate endpoint
+    const response = await fetch(oauthEndpoints().github.emails, {
+      headers: {
+        Authorization: `Bearer ${account.access_token}`,
+        "User-Agent": "reelspro",
+      },
+    });
+    if (!response.ok) return null;
+    const emails: GithubEmail[] = await response.json();
+    return emails.find((email) => email.primary && email.verified)?.email ?? null;
+  }
+
+  return null;
+}
+
+// the first free username based on the provider login / name, adding digits when taken
+async function availableUsername(users: OAuthUserStore, source: string) {
+  const base = suggestUsername(source);
+  if (!(await users.isUsernameTaken(base))) return base;
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const suffix = Math.floor(1000 + Math.random() * 9000).toString();
+    const candidate = `${base.slice(0, 30 - suffix.length)}${suffix}`;
+    if (!(await users.isUsernameTaken(candidate))) return candidate;
+  }
+  return undefined; // the user can pick one later on the profile page
+}
+
+export async function findOrCreateOAuthUser(account: AuthAccount, profile?: Profile) {
+  const users = getOAuthUserStore();
+  let user = await users.findLinkedUser(account.provider, account.providerAccountId);
+
+  if (!user) {
+    const verifiedEmail = await getVerifiedEmail(account, profile);
+    const email = verifiedEmail && normalizeEmail(verifiedEmail);
+    if (!email) return { error: "OAuthEmailUnverified" as OAuthLinkError };
+
+    user = await users.findUserByEmail(email);
+
+    // linking would be a way around the code: the provider vouches for the email, not for the second factor
+    if (user?.twoFactorEnabled) return { error: "OAuthTwoFactorEnabled" as OAuthLinkError };
+
+    if (!user) {
+      user = await users.createUser({
+        email,
+        username: await availableUsername(
+          users,
+          (profile as { login?: string } | undefined)?.login ?? profile?.name ?? email.split("@")[0]
+        ),
+      });
+    } else if (!user.isVerified) {
+      // whoever registered this email with a password never proved they own it, the provider just did:
+      // drop that password (and its sessions) so it can't be used to get into the now linked account
+      user = await users.claimUnverifiedUser(user);
+    }
+
+    await users.linkAccount(user._id.toString(), account.provider, account.providerAccountId);
+  }
+
+  if (user.suspendedAt) return { error: "AccountSuspended" as OAuthLinkError };
+  // identities linked before 2FA was turned on don't skip the code either (2FA always comes with a password, see lib/two-factor.ts)
+  if (user.twoFactorEnabled) return { error: "OAuthTwoFactorEnabled" as OAuthLinkError };
+
+  return { user };
+}
+
+/*
+OAuth sign-in (GitHub, Google) with account linking, called from the signIn callback in lib/auth.ts.
+Lookup order:
+1. An Account with this provider + providerAccountId already exists: sign in as its user.
+2. Otherwise, a user with the provider's verified email exists: link the identity to that user (no duplicate account). Users with two-factor authentication are never linked, and can't sign in through an identity linked earlier either (?error=OAuthTwoFactorEnabled): they sign in with their password and code.
+3. Otherwise, create a new user without a password (they can set one later with "Forgot password?") and link it.
+Only verified provider emails are used for matching (Google's email_verified, GitHub's verified primary email); without one the login is refused with ?error=OAuthEmailUnverified.
+Linked identities live in the accounts collection (models/Account.ts); NextAuth's own database adapter isn't used, sessions stay JWTs.
+Users and links are read and written through an OAuthUserStore: MongoOAuthUserStore in the app, an in-memory one in lib/oauth.test.ts (setOAuthUserStore).
+Endpoints: GITHUB_URL, GITHUB_API_URL and GOOGLE_ISSUER point the providers elsewhere (GitHub Enterprise, or the mock server of the tests); they default to github.com, api.github.com and accounts.google.com.
+*/
@@ -0,0 +1,93 @@
+import mongoose from "mongoose";
+
+export const DEFAULT_PAGE_SIZE = 12;
+export const MAX_PAGE_SIZE = 50;
+
+export type Paginated<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+type CursorPosition = {
+  createdAt: Date;
+  _id: mongoose.Types.ObjectId;
+};
+
+export function encodeCursor({ createdAt, _id }: CursorPosition) {
+  return Buffer.from(`${new Date(createdAt).toISOString()}_${_id}`).toString(
+    "base64url"
+  );
+}
+
+export function decodeCursor(cursor: string): CursorPosition | null {
+  const [createdAt, id] = Buffer.from(cursor, "base64url")
+    .toString()
+    .split("_");
+  const date = new Date(createdAt);
+
+  if (!id || isNaN(date.getTime()) || !mongoose.isValidObjectId(id)) {
+    return null;
+  }
+  return { createdAt: date, _id: new mongoose.Types.ObjectId(id) };
+}
+
+export function parseLimit(value: string | null) {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+// everything strictly after the cursor in (createdAt desc, _id desc) order
+export function afterCursor({ createdAt, _id }: CursorPosition) {
+  return {
+    $or: [
+      { createdAt: { $lt: createdAt } },
+      { createdAt, _id: { $lt: _id } },
+    ],
+  };
+}
+
+// fetch one extra document to know whether another page exists without a count query
+export function toPage<T extends CursorPosition>(
+  docs: T[],
+  limit: number
+): Paginated<T> {
+  const hasMore = docs.length > limit;
+  const items = hasMore ? docs.slice(0, limit) : docs;
+  return {
+    items,
+    nextCursor: hasMore ? encodeCursor(items[items.length - 1]) : null,
+  };
+}
+
+// offset cursors, for result sets that aren't ordered by (createdAt, _id) such as relevance ranked search
+export function encodeOffsetCursor(offset: number) {
+  return Buffer.from(`offset_${offset}`).toString("base64url");
+}
+
+export function decodeOffsetCursor(cursor: string) {
+  const [prefix, value] = Buffer.from(cursor, "base64url")
+    .toString()
+    .split("_");
+  const offset = Number(value);
+  return prefix === "offset" && Number.isInteger(offset) && offset >= 0
+    ? offset
+    : null;
+}
+
+/*
+Keyset ("cursor") pagination over documents sorted by { createdAt: -1, _id: -1 }.
+Why not skip/limit?
+skip(n) makes MongoDB walk past n documents on every request, so deep pages get slower and slower.
+It also shows duplicates or skips items when new reels are uploaded while someone is scrolling.
+How it works:
+The cursor is the (createdAt, _id) of the last item on the previous page, base64url encoded so clients treat it as opaque.
+The next page is everything strictly "after" that position; _id breaks ties between reels created in the same millisecond.
+The query is served by the { createdAt: -1, _id: -1 } compound index on the collection.
+Usage in an API route:
+const cursor = searchParams.get("cursor"), decoded with decodeCursor (null means a malformed cursor -> 400).
+Query with afterCursor(position), sort { createdAt: -1, _id: -1 }, limit(limit + 1), then pass the results to toPage.
+Offset cursors:
+When results are sorted by something without a stable unique key (e.g. text search score) keyset pagination doesn't work, so the cursor wraps a plain skip offset instead.
+Clients can't tell the difference: both kinds are opaque strings sent back as ?cursor=.
+*/
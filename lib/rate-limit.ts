@@ -0,0 +1,194 @@
+import { NextResponse } from "next/server";
+import { connectToDatabase } from "./db";
+import RateLimitHit from "@/models/RateLimitHit";
+
+export interface RateLimitStore {
+  // returns the timestamps (ms) of every hit of this key inside the window plus this one, oldest first;
+  // the hit is only recorded while the key is under the limit, so a flood of blocked requests stores nothing
+  hit(key: string, rule: RateLimitRule): Promise<number[]>;
+  // same as hit, without recording anything
+  peek(key: string, windowMs: number): Promise<number[]>;
+  reset(key: string): Promise<void>;
+}
+
+// single process only: every server instance keeps its own counts
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, { windowMs: number; hits: number[] }>();
+  private lastSweep = Date.now();
+
+  async hit(key: string, { limit, windowMs }: RateLimitRule) {
+    this.sweep();
+    const now = Date.now();
+    const hits = await this.peek(key, windowMs);
+    if (hits.length < limit) this.hits.set(key, { windowMs, hits: [...hits, now] });
+    return [...hits, now];
+  }
+
+  async peek(key: string, windowMs: number) {
+    const since = Date.now() - windowMs;
+    const hits = (this.hits.get(key)?.hits ?? []).filter((at) => at > since);
+    if (hits.length === 0) this.hits.delete(key);
+    else this.hits.set(key, { windowMs, hits });
+    return [...hits];
+  }
+
+  async reset(key: string) {
+    this.hits.delete(key);
+  }
+
+  // drops keys whose hits all left their window, at most once a minute; keys nobody asks about again would stay forever otherwise
+  private sweep() {
+    const now = Date.now();
+    if (now - this.lastSweep < 60 * 1000) return;
+    this.lastSweep = now;
+    for (const [key, entry] of this.hits) {
+      if (entry.hits[entry.hits.length - 1] <= now - entry.windowMs) this.hits.delete(key);
+    }
+  }
+}
+
+// shared by every instance through MongoDB, for deployments with more than one server
+export class MongoRateLimitStore implements RateLimitStore {
+  async hit(key: string, { limit, windowMs }: RateLimitRule) {
+    const hits = await this.peek(key, windowMs);
+    const now = Date.now();
+    if (hits.length < limit) {
+      await RateLimitHit.create({
+        key,
+        at: new Date(now),
+        expiresAt: new Date(now + windowMs),
+      });
+    }
+    return [...hits, now];
+  }
+
+  async peek(key: string, windowMs: number) {
+    await connectToDatabase();
+    const hits = await RateLimitHit.find({
+      key,
+      at: { $gt: new Date(Date.now() - windowMs) },
+    })
+      .sort({ at: 1 })
+      .select("at")
+      .lean<{ at: Date }[]>();
+    return hits.map((hit) => hit.at.getTime());
+  }
+
+  async reset(key: string) {
+    await connectToDatabase();
+    await RateLimitHit.deleteMany({ key });
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore() {
+  store ??=
+    process.env.RATE_LIMIT_STORE === "mongo"
+      ? new MongoRateLimitStore()
+      : new MemoryRateLimitStore();
+  return store;
+}
+
+// plugs in another store (e.g. Redis backed, or a fresh memory store per test)
+export function setRateLimitStore(rateLimitStore: RateLimitStore) {
+  store = rateLimitStore;
+}
+
+export type RateLimitRule = {
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  retryAfterSeconds: number;
+};
+
+function toResult(hits: number[], { limit, windowMs }: RateLimitRule): RateLimitResult {
+  if (hits.length <= limit) return { allowed: true, retryAfterSeconds: 0 };
+  // blocked until enough old hits leave the window to get back under the limit
+  const freedAt = hits[hits.length - limit - 1] + windowMs;
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.max(1, Math.ceil((freedAt - Date.now()) / 1000)),
+  };
+}
+
+// counts this request and says whether it is within the limit
+export async function rateLimit(key: string, rule: RateLimitRule) {
+  return toResult(await getRateLimitStore().hit(key, rule), rule);
+}
+
+// whether the key is already over the limit, without counting anything (e.g. "is this account locked?")
+export async function isRateLimited(key: string, rule: RateLimitRule) {
+  const hits = await getRateLimitStore().peek(key, rule.windowMs);
+  return toResult([...hits, Date.now()], rule);
+}
+
+export async function resetRateLimit(key: string) {
+  await getRateLimitStore().reset(key);
+}
+
+// how many reverse proxies in front of the app append to X-Forwarded-For (e.g. 1 behind Vercel or one nginx)
+function trustedProxyCount() {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+  return Number.isInteger(count) && count >= 0 ? count : 1;
+}
+
+// the client IP as seen by the outermost trusted proxy: entries left of it were sent by the client and can be anything
+export function getClientIp(headers: Headers) {
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const count = trustedProxyCount();
+  if (count === 0 || hops.length === 0) return "unknown"; // no proxy vouches for the header
+  return hops[Math.max(hops.length - count, 0)];
+}
+
+export function tooManyRequests(retryAfterSeconds: number, body?: object) {
+  return NextResponse.json(
+    {
+      error: `Too many requests. Please try again in ${formatRetryAfter(retryAfterSeconds)}.`,
+      ...body,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
+
+export function formatRetryAfter(seconds: number) {
+  return seconds < 60
+    ? `${seconds} seconds`
+    : `${Math.ceil(seconds / 60)} minutes`;
+}
+
+export const RATE_LIMITS = {
+  loginPerIp: { limit: 20, windowMs: 15 * 60 * 1000 },
+  loginFailuresPerAccount: { limit: 5, windowMs: 15 * 60 * 1000 },
+  registerPerIp: { limit: 5, windowMs: 60 * 60 * 1000 },
+  passwordResetPerIp: { limit: 5, windowMs: 15 * 60 * 1000 },
+  reportsPerUser: { limit: 20, windowMs: 60 * 60 * 1000 },
+} satisfies Record<string, RateLimitRule>;
+
+/*
+Sliding-window rate limiting for the auth routes.
+Sliding window log:
+Each request is stored as a timestamp under a key; a request is allowed while the key has at most `limit` hits in the last `windowMs`.
+Blocked requests aren't stored: a key never holds more than `limit` timestamps, however hard it is hammered.
+Unlike fixed windows (e.g. "per clock hour") there is no boundary where an attacker can fire 2x the limit in a few seconds.
+Stores:
+RATE_LIMIT_STORE=memory (default): A Map in the server process, swept of expired keys once a minute. Fine for one instance and for development.
+RATE_LIMIT_STORE=mongo: One document per hit in the ratelimithits collection, cleaned up by a TTL index; shared by every instance.
+setRateLimitStore(...): Anything implementing RateLimitStore.
+Limits (RATE_LIMITS):
+loginPerIp: Credential login attempts per client IP (enforced in app/api/auth/[...nextauth]/route.ts).
+loginFailuresPerAccount: Failed logins per email; after 5 within 15 minutes the account is locked until the oldest failure leaves the window (lib/auth.ts).
+registerPerIp, passwordResetPerIp: Account creation and reset emails per client IP.
+reportsPerUser: Content reports per signed in user (app/api/reports/route.ts), so one account can't flood the moderation queue.
+Blocked requests get a 429 with a Retry-After header (seconds).
+Client IP:
+Each proxy appends the address it received the request from to X-Forwarded-For, so only the rightmost TRUSTED_PROXY_COUNT entries (default 1) were written by our own infrastructure.
+getClientIp takes the entry the outermost trusted proxy added; whatever the client put in the header itself sits left of it and is ignored.
+Set TRUSTED_PROXY_COUNT to the number of proxies in front of the app (e.g. 2 for a CDN in front of a load balancer). With 0 the header is never trusted and every request shares the "unknown" key, so only use it when nothing in front of the app sets the header.
+*/
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import bcrypt from "bcryptjs";
+import { authOptions } from "./auth";
+import { connectToDatabase } from "./db";
+import {
+  formatRetryAfter,
+  isRateLimited,
+  RATE_LIMITS,
+  rateLimit,
+  resetRateLimit,
+  tooManyRequests,
+} from "./rate-limit";
+import User from "@/models/User";
+
+// loads the full user document of the session, returning either the user or the error response to send
+export async function getCurrentUser() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  await connectToDatabase();
+  const user = await User.findById(session.user.id);
+  if (!user) {
+    return { error: NextResponse.json({ error: "User not found" }, { status: 404 }) };
+  }
+
+  return { user };
+}
+
+// for sensitive settings: checks the password the user just typed again, returning the error response to send if it's wrong
+export async function checkCurrentPassword(
+  user: { email: string; password?: string },
+  password: unknown
+) {
+  if (!user.password) {
+    return {
+      error: NextResponse.json(
+        { error: "Your account has no password yet, set one with \"Forgot password?\" first" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  // shares the lockout of the login form, otherwise this would be a way around it
+  const failureKey = `login-failure:${user.email.toLowerCase()}`;
+  const lock = await isRateLimited(failureKey, RATE_LIMITS.loginFailuresPerAccount);
+  if (!lock.allowed) {
+    return {
+      error: tooManyRequests(lock.retryAfterSeconds, {
+        error: `Too many failed attempts. Please try again in ${formatRetryAfter(lock.retryAfterSeconds)}.`,
+      }),
+    };
+  }
+
+  if (typeof password !== "string" || !(await bcrypt.compare(password, user.password))) {
+    await rateLimit(failureKey, RATE_LIMITS.loginFailuresPerAccount);
+    return {
+      error: NextResponse.json(
+        { error: "Incorrect password", fieldErrors: { password: "Incorrect password" } },
+        { status: 400 }
+      ),
+    };
+  }
+
+  await resetRateLimit(failureKey);
+  return {};
+}
+
+/*
+Re-authentication: being logged in isn't enough to turn off 2FA or change security settings, the user types their password again.
+Usage in an API route:
+const { user, error: authError } = await getCurrentUser();
+if (authError) return authError;
+const { error } = await checkCurrentPassword(user, body.password);
+if (error) return error;
+Wrong passwords count towards the same per-account lockout as the login form (lib/rate-limit.ts), so a stolen session can't be used to guess the password.
+*/
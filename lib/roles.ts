@@ -0,0 +1,8 @@
+// moderators handle reports and hide content, admins can also manage accounts
+export function canModerate(role?: string) {
+  return role === "moderator" || role === "admin";
+}
+
+/*
+Kept free of any import so it works everywhere the role needs checking: middleware.ts (edge runtime), client components (Header) and API routes.
+*/
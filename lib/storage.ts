@@ -0,0 +1,191 @@
+import crypto from "crypto";
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import ImageKit from "imagekit";
+import {
+  imagekitDeliveryUrl,
+  localDeliveryUrl,
+  MediaTransformation,
+  STORAGE_PROVIDER,
+  StorageProviderName,
+} from "./media";
+
+export type StoredFile = {
+  fileId: string;
+  filePath: string;
+  url: string;
+  thumbnailUrl?: string;
+};
+
+export type UploadSignature = {
+  token: string;
+  expire: number; // unix seconds
+  signature: string;
+};
+
+export interface StoreFileInput {
+  source: string; // a file on the server's disk
+  fileName: string;
+  folder: "/videos" | "/images";
+}
+
+export interface StorageProvider {
+  name: StorageProviderName;
+  // parameters that let a client upload one file straight to the storage without knowing the private key
+  signUpload(): UploadSignature;
+  store(file: StoreFileInput): Promise<StoredFile>;
+  deliveryUrl(filePath: string, transformation?: MediaTransformation): string;
+  deleteAsset(fileId: string): Promise<void>;
+}
+
+const SIGNATURE_TTL_SECONDS = 30 * 60;
+
+// token + expire signed with HMAC-SHA1, the scheme ImageKit uses for client-side uploads
+function signUploadWith(secret: string, token: string, expire: number) {
+  return crypto.createHmac("sha1", secret).update(token + expire).digest("hex");
+}
+
+// "My clip (1).mp4" -> "My-clip-1-.mp4", safe as a file name on every filesystem
+function safeFileName(name: string) {
+  return name.replace(/[^\w.-]+/g, "-").slice(-100) || "file";
+}
+
+export class ImageKitStorageProvider implements StorageProvider {
+  name = "imagekit" as const;
+  private client: ImageKit;
+
+  constructor() {
+    this.client = new ImageKit({
+      publicKey: process.env.NEXT_PUBLIC_PUBLIC_KEY!,
+      privateKey: process.env.IMAGEKIT_PRIVATE_KEY!,
+      urlEndpoint: process.env.NEXT_PUBLIC_URL_ENDPOINT!,
+    });
+  }
+
+  signUpload() {
+    return this.client.getAuthenticationParameters(); // checked by ImageKit when the client uploads
+  }
+
+  async store({ source, fileName, folder }: StoreFileInput) {
+    const response = await this.client.upload({
+      file: createReadStream(source), // streamed, a 500 MB video never sits in memory
+      fileName,
+      folder,
+      useUniqueFileName: true,
+    });
+    return {
+      fileId: response.fileId,
+      filePath: response.filePath,
+      url: response.url,
+      thumbnailUrl: response.thumbnailUrl,
+    };
+  }
+
+  deliveryUrl(filePath: string, transformation?: MediaTransformation) {
+    return imagekitDeliveryUrl(filePath, transformation);
+  }
+
+  async deleteAsset(fileId: string) {
+    await this.client.deleteFile(fileId);
+  }
+}
+
+export class LocalStorageProvider implements StorageProvider {
+  name = "local" as const;
+
+  constructor(private directory: string) {}
+
+  // the file on disk for a stored path, or null for paths that would leave the storage folder ("/../.env")
+  resolve(filePath: string) {
+    const root = path.resolve(this.directory);
+    const target = path.resolve(root, `.${path.posix.normalize(`/${filePath}`)}`);
+    return target.startsWith(root + path.sep) ? target : null;
+  }
+
+  // the key upload signatures are made with; there is no default, a known one would let anyone sign
+  private secret() {
+    const secret = process.env.LOCAL_STORAGE_SECRET || process.env.NEXTAUTH_SECRET;
+    if (!secret) throw new Error("Please define LOCAL_STORAGE_SECRET or NEXTAUTH_SECRET in env file");
+    return secret;
+  }
+
+  signUpload() {
+    const token = crypto.randomUUID();
+    const expire = Math.floor(Date.now() / 1000) + SIGNATURE_TTL_SECONDS;
+    return { token, expire, signature: signUploadWith(this.secret(), token, expire) };
+  }
+
+  // whether the parameters sent with a direct upload (app/api/storage/upload) come from signUpload and haven't expired
+  verifyUpload({ token, expire, signature }: UploadSignature) {
+    if (!token || !Number.isInteger(expire) || expire < Date.now() / 1000) return false;
+    const expected = Buffer.from(signUploadWith(this.secret(), token, expire));
+    const given = Buffer.from(String(signature));
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  async store({ source, fileName, folder }: StoreFileInput) {
+    const filePath = `${folder}/${crypto.randomBytes(8).toString("hex")}-${safeFileName(fileName)}`;
+    const target = this.resolve(filePath)!;
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.copyFile(source, target); // not rename(): the staging and storage folders may be on different disks
+    return { fileId: `local:${filePath}`, filePath, url: localDeliveryUrl(filePath) };
+  }
+
+  deliveryUrl(filePath: string) {
+    return localDeliveryUrl(filePath);
+  }
+
+  async deleteAsset(fileId: string) {
+    const target = fileId.startsWith("local:") ? this.resolve(fileId.slice("local:".length)) : null;
+    if (!target) throw new Error(`Not a local file: ${fileId}`); // e.g. an ImageKit id from before switching providers
+    await fs.rm(target);
+  }
+}
+
+let provider: StorageProvider | null = null;
+
+function createProviderFromEnv(): StorageProvider {
+  switch (STORAGE_PROVIDER) {
+    case "local":
+      return new LocalStorageProvider(process.env.LOCAL_UPLOAD_DIR || path.join(process.cwd(), ".uploads"));
+    case "imagekit":
+      return new ImageKitStorageProvider();
+  }
+}
+
+// plugs in another provider (e.g. a fake in tests)
+export function setStorageProvider(storageProvider: StorageProvider) {
+  provider = storageProvider;
+}
+
+export function getStorageProvider() {
+  provider ??= createProviderFromEnv(); // created on first use, so the local provider never needs ImageKit keys
+  return provider;
+}
+
+// removes a stored file, returning whether it worked; failures are only logged
+export async function deleteStoredFile(fileId: string) {
+  try {
+    await getStorageProvider().deleteAsset(fileId);
+    return true;
+  } catch (error) {
+    // the asset may already be gone from the storage, that must not keep anything in our database
+    console.error("Error deleting stored file:", error);
+    return false;
+  }
+}
+
+/*
+Pluggable file storage, server side only (it holds the ImageKit private key). Media URLs for the browser are built by lib/media.ts.
+Every place that stores, signs or deletes files goes through getStorageProvider():
+lib/upload-storage.ts stores finished chunked uploads, which is how the app's own forms upload.
+app/api/storage/upload-auth signs direct uploads (signUpload): with ImageKit the client sends the file straight to ImageKit, which checks the signature; with the local provider it sends it to app/api/storage/upload, which checks it with verifyUpload.
+lib/account-deletion.ts and PUT /api/videos/[id] delete video files and replaced covers.
+Choosing a provider (NEXT_PUBLIC_STORAGE_PROVIDER):
+imagekit (default): ImageKit with NEXT_PUBLIC_PUBLIC_KEY, IMAGEKIT_PRIVATE_KEY and NEXT_PUBLIC_URL_ENDPOINT.
+local: Files are kept in LOCAL_UPLOAD_DIR (default .uploads/) and served by app/api/media, so the app runs offline and integration tests need no ImageKit account. Their fileIds start with "local:". Upload signatures are made with LOCAL_STORAGE_SECRET (or NEXTAUTH_SECRET).
+setStorageProvider(...): Anything implementing StorageProvider, e.g. an S3 based one, or a fake in tests.
+Switching providers doesn't move existing files: videos stored before keep their old paths.
+*/
@@ -0,0 +1,35 @@
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 30;
+
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+
+// "#Dance" / "dance" / " DANCE " -> "dance"; returns null for anything that can't be a tag
+export function normalizeTag(tag: string) {
+  const normalized = tag.trim().replace(/^#/, "").toLowerCase();
+  if (!normalized || normalized.length > MAX_TAG_LENGTH) return null;
+  if (!/^[\p{L}\p{N}_]+$/u.test(normalized)) return null;
+  return normalized;
+}
+
+export function extractTags(text: string) {
+  return Array.from(text.matchAll(HASHTAG_PATTERN), (match) => match[1]);
+}
+
+// normalizes, drops invalid ones and duplicates, keeps the first MAX_TAGS in order
+export function buildTags(...sources: string[][]) {
+  const tags = new Set<string>();
+  for (const tag of sources.flat()) {
+    const normalized = normalizeTag(tag);
+    if (normalized) tags.add(normalized);
+  }
+  return Array.from(tags).slice(0, MAX_TAGS);
+}
+
+/*
+Hashtags are stored on the video as a normalized array (lowercase, no "#", letters / digits / underscore only).
+Sources:
+#tags written in the description, picked up by extractTags.
+Explicit tags sent by the client (the "Tags" field of the upload form), with or without "#".
+buildTags merges both, so "#Dance" in the description and "dance" in the tags field end up as one "dance" tag.
+Normalizing on write means tag lookups are a plain exact match on the indexed tags field.
+*/
@@ -0,0 +1,29 @@
+import { mediaUrl, STORAGE_PROVIDER } from "./media";
+
+// "/videos/a.mp4", 2.5 -> "/videos/a.mp4/ik-thumbnail.jpg?tr=so-2.5": ImageKit renders the frame at 2.5s as a JPEG
+export function frameThumbnailPath(videoPath: string, seconds: number) {
+  return `${videoPath}/ik-thumbnail.jpg?tr=so-${seconds}`;
+}
+
+// the image to show before a video plays, undefined when there is none
+export function posterUrl(video: { videoUrl: string; thumbnailUrl: string }) {
+  // older uploads fell back to the video file itself, which can't be shown as an image: use its first frame
+  const thumbnail =
+    !video.thumbnailUrl || video.thumbnailUrl === video.videoUrl
+      ? `${video.videoUrl}/ik-thumbnail.jpg`
+      : video.thumbnailUrl;
+
+  // only ImageKit renders frames; the local storage has no image for them, the browser then shows the video itself
+  if (STORAGE_PROVIDER !== "imagekit" && thumbnail.includes("/ik-thumbnail.jpg")) return undefined;
+  return mediaUrl(thumbnail);
+}
+
+/*
+Video thumbnails, usable from both client and server code.
+A video's thumbnail is one of:
+An uploaded cover image: thumbnailUrl is its storage path, thumbnailFileId its storage id.
+A frame of the video: thumbnailTime is the second the creator picked, thumbnailUrl the frameThumbnailPath built from it.
+ImageKit generates frame thumbnails on the fly from the "ik-thumbnail.jpg" suffix, so nothing extra is stored in ImageKit.
+The so (start offset) parameter picks the second; without it ImageKit uses the first frame.
+With the local storage provider (lib/media.ts) frame thumbnails aren't available and posterUrl returns undefined; uploaded covers work with either provider.
+*/
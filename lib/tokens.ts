@@ -0,0 +1,60 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import AuthToken, { AuthTokenType } from "@/models/AuthToken";
+
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// creates a fresh token for the user and invalidates any older unused one of the same type
+export async function createAuthToken(
+  userId: string | mongoose.Types.ObjectId,
+  type: AuthTokenType,
+  ttlMs: number
+) {
+  const token = crypto.randomBytes(32).toString("hex");
+
+  await AuthToken.deleteMany({ user: userId, type, usedAt: null });
+  await AuthToken.create({
+    user: userId,
+    type,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+
+  return token;
+}
+
+// marks the token as used and returns its user id, or null when it is unknown, expired or already used
+export async function consumeAuthToken(token: string, type: AuthTokenType) {
+  const authToken = await AuthToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      type,
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() }
+  ).lean<{ user: mongoose.Types.ObjectId }>();
+
+  return authToken?.user ?? null;
+}
+
+// when the user's latest token of this type was created, for resend cooldowns
+export async function lastTokenCreatedAt(
+  userId: string | mongoose.Types.ObjectId,
+  type: AuthTokenType
+) {
+  const latest = await AuthToken.findOne({ user: userId, type })
+    .sort({ createdAt: -1 })
+    .select("createdAt")
+    .lean<{ createdAt: Date }>();
+  return latest?.createdAt ?? null;
+}
+
+/*
+One-time tokens for links sent by email (email verification, password reset).
+The raw token is 32 random bytes (64 hex characters), only ever sent to the user; the database stores its SHA-256 hash.
+A plain hash (not bcrypt) is enough here: the token is random and long, so it can't be brute forced, and hashing lets us look it up directly.
+consumeAuthToken is a single findOneAndUpdate, so two requests racing with the same link can't both succeed.
+*/
@@ -0,0 +1,94 @@
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const SECRET_BYTES = 20; // 160 bits, the size RFC 4226 recommends for HMAC-SHA1
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+export function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(text: string) {
+  const clean = text.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+// the 30 second time step a moment falls in, the "counter" of RFC 6238
+export function totpStep(time = Date.now()) {
+  return Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function totpCode(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+
+  // dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+// the step the code belongs to, or null; the previous and next steps are accepted too for clock drift
+export function verifyTotp(secret: string, code: string, time = Date.now()) {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const current = totpStep(time);
+  for (const step of [current, current - 1, current + 1]) {
+    const expected = totpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+export function totpUri({ secret, account, issuer }: { secret: string; account: string; issuer: string }) {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+/*
+Time-based one-time passwords (RFC 6238), the 6 digit codes shown by Google Authenticator, 1Password, Authy...
+How it works:
+The server and the authenticator app share a random secret (base32 encoded, the format every app expects).
+Every 30 seconds both compute HMAC-SHA1(secret, number of 30s periods since 1970) and turn it into 6 digits. Matching codes prove the user has the secret, i.e. their phone.
+totpUri() builds the otpauth:// link that the enrollment QR code contains (https://github.com/google/google-authenticator/wiki/Key-Uri-Format).
+verifyTotp() returns the matched step so the caller can refuse the same code twice (see lib/two-factor.ts).
+Implemented with node's crypto module only, no extra dependency.
+*/
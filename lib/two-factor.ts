@@ -0,0 +1,91 @@
+import crypto from "crypto";
+import { hashToken } from "./tokens";
+import { verifyTotp } from "./totp";
+import User from "@/models/User";
+
+export const RECOVERY_CODE_COUNT = 10;
+export const TWO_FACTOR_ISSUER = "ReelsPro";
+
+// AES-256-GCM with a key derived from NEXTAUTH_SECRET, so a leaked database alone doesn't give away the TOTP secrets
+function secretKey() {
+  return crypto.createHash("sha256").update(`totp:${process.env.NEXTAUTH_SECRET}`).digest();
+}
+
+export function encryptSecret(secret: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", secretKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+}
+
+export function decryptSecret(stored: string) {
+  const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", secretKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+// recovery codes are compared case and dash insensitively: "ABCD-1234" == "abcd1234"
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+// returns the codes to show the user once, and their hashes to store
+export function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex"); // 10 hex characters
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return {
+    codes,
+    hashed: codes.map((code) => ({ hash: hashToken(normalizeRecoveryCode(code)), usedAt: null })),
+  };
+}
+
+type TwoFactorUser = {
+  _id: { toString(): string };
+  twoFactorSecret?: string;
+  twoFactorLastStep?: number | null;
+};
+
+// checks a 6 digit authenticator code or a recovery code, using each at most once
+export async function verifySecondFactor(user: TwoFactorUser, code: string) {
+  const input = code.trim();
+
+  if (/^\d{6}$/.test(input)) {
+    if (!user.twoFactorSecret) return false;
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), input);
+    if (step === null) return false;
+
+    // a code seen once (even by another request racing this one) is never accepted again
+    const { modifiedCount } = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [{ twoFactorLastStep: null }, { twoFactorLastStep: { $lt: step } }],
+      },
+      { $set: { twoFactorLastStep: step } }
+    );
+    return modifiedCount === 1;
+  }
+
+  const { modifiedCount } = await User.updateOne(
+    {
+      _id: user._id,
+      twoFactorRecoveryCodes: {
+        $elemMatch: { hash: hashToken(normalizeRecoveryCode(input)), usedAt: null },
+      },
+    },
+    { $set: { "twoFactorRecoveryCodes.$.usedAt": new Date() } }
+  );
+  return modifiedCount === 1;
+}
+
+/*
+Two-factor authentication (2FA) for credential logins, on top of lib/totp.ts.
+Stored on the user (models/User.ts):
+twoFactorSecret: the TOTP secret, encrypted with encryptSecret(); twoFactorPendingSecret holds it during enrollment until a first code confirms the app was set up.
+twoFactorLastStep: the time step of the last accepted code, so a code can't be replayed within its 90 second window.
+twoFactorRecoveryCodes: SHA-256 hashes of the 10 one-time recovery codes (the codes themselves are shown once, at enrollment); each gets usedAt when spent.
+Single use is enforced by the database: each check is one conditional updateOne, so two concurrent logins can't both spend the same code.
+OAuth logins (GitHub/Google) can't skip the code: lib/oauth.ts refuses them for accounts with 2FA, whether the identity is new (no linking by email) or was linked earlier. Enrollment needs a password, so those users can always log in with it and their code.
+*/
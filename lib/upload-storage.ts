@@ -0,0 +1,130 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import mongoose from "mongoose";
+import { deleteStoredFile, getStorageProvider, StoredFile } from "./storage";
+import UploadSession from "@/models/UploadSession";
+import User from "@/models/User";
+import Video from "@/models/Video";
+
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024; // 5 MB per request
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours to finish an upload
+// per user, counting every session not used or expired yet: enough for a full bulk upload (BULK_UPLOAD_MAX_VIDEOS) plus covers
+export const UPLOAD_MAX_OPEN_SESSIONS = 30;
+export const UPLOAD_MAX_OPEN_BYTES = 5 * 1024 * 1024 * 1024; // 5 GB staged or stored but not used yet
+
+type StorableSession = {
+  _id: mongoose.Types.ObjectId;
+  fileName: string;
+  fileType: "video" | "image";
+};
+
+function stagingDir() {
+  return process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), "reelspro-uploads");
+}
+
+function partPath(sessionId: string) {
+  return path.join(stagingDir(), `${sessionId}.part`);
+}
+
+export async function createPartFile(sessionId: string) {
+  await fs.mkdir(stagingDir(), { recursive: true });
+  await fs.writeFile(partPath(sessionId), "");
+}
+
+// writes the chunk at its offset: sending the same chunk twice (a retry) leaves the file unchanged
+export async function writeChunk(sessionId: string, offset: number, data: Buffer) {
+  const handle = await fs.open(partPath(sessionId), "r+");
+  try {
+    await handle.write(data, 0, data.length, offset);
+  } finally {
+    await handle.close();
+  }
+}
+
+export async function removePartFile(sessionId: string) {
+  await fs.rm(partPath(sessionId), { force: true });
+}
+
+// hands the assembled file to the storage provider (lib/storage.ts) and removes the staged copy
+export async function storeUploadedFile(session: StorableSession): Promise<StoredFile> {
+  const sessionId = session._id.toString();
+  const source = partPath(sessionId);
+
+  const stored = await getStorageProvider().store({
+    source,
+    fileName: session.fileName,
+    folder: session.fileType === "video" ? "/videos" : "/images",
+  });
+  await removePartFile(sessionId);
+  return stored;
+}
+
+// whether the user may start another upload of this size, or has too much staged and unused already
+export async function canOpenUploadSession(owner: string, size: number) {
+  const [open] = await UploadSession.aggregate<{ count: number; bytes: number }>([
+    { $match: { owner: new mongoose.Types.ObjectId(owner) } },
+    { $group: { _id: null, count: { $sum: 1 }, bytes: { $sum: "$size" } } },
+  ]);
+  return (open?.count ?? 0) < UPLOAD_MAX_OPEN_SESSIONS && (open?.bytes ?? 0) + size <= UPLOAD_MAX_OPEN_BYTES;
+}
+
+// the stored file of a finished upload of this user, or null for anyone else's, unfinished or missing uploads
+export async function findCompletedUpload(uploadId: string, owner: string, fileType: "video" | "image") {
+  const upload = await UploadSession.findOne({ _id: uploadId, owner, fileType, status: "complete" })
+    .select("result")
+    .lean<{ result: StoredFile | null }>();
+  return upload?.result ?? null;
+}
+
+// forgets uploads once a video, cover or avatar uses their file, so the same upload can't be used twice
+export async function consumeUploads(uploadIds: (string | undefined)[]) {
+  await UploadSession.deleteMany({ _id: { $in: uploadIds.filter(Boolean) } });
+}
+
+// whether a video or an avatar uses the stored file (e.g. one saved before uploads were consumed)
+async function isStoredFileInUse(file: StoredFile) {
+  const [video, user] = await Promise.all([
+    Video.exists({ $or: [{ fileId: file.fileId }, { thumbnailFileId: file.fileId }] }),
+    User.exists({ avatarUrl: file.filePath }),
+  ]);
+  return Boolean(video || user);
+}
+
+// deletes the stored file of a finished upload that was cancelled or expired before anything used it
+export async function deleteUnusedUpload(file: StoredFile) {
+  if (!(await isStoredFileInUse(file))) await deleteStoredFile(file.fileId);
+}
+
+// gives up on sessions past their expiresAt: deletes their staged chunks, the stored files nobody used and the session documents
+export async function cleanupExpiredUploadSessions() {
+  const expired = await UploadSession.find({ expiresAt: { $lt: new Date() } })
+    .select("_id status result")
+    .limit(50)
+    .lean<{ _id: mongoose.Types.ObjectId; status: string; result: StoredFile | null }[]>();
+
+  for (const session of expired) {
+    await removePartFile(session._id.toString());
+    if (session.status === "complete" && session.result) await deleteUnusedUpload(session.result);
+  }
+  await UploadSession.deleteMany({ _id: { $in: expired.map((session) => session._id) } });
+}
+
+/*
+Server side of chunked uploads (the routes are in app/api/uploads, the browser side in lib/chunked-upload.ts).
+Staging:
+Chunks are written into one .part file per session, in UPLOAD_TMP_DIR (default: the OS temp folder). Each chunk goes to its own offset, so a chunk that is retried after a lost response is simply written again at the same place.
+The staging folder must be shared by every server instance handling uploads (one server, or a shared volume).
+Storage:
+Once every byte is there, storeUploadedFile hands the file to the configured storage provider (see lib/storage.ts), in the /videos or /images folder.
+With NEXT_PUBLIC_STORAGE_PROVIDER=local that is a folder on disk, so uploads can be tried and tested without an ImageKit account.
+Using a file:
+Videos, covers and avatars name the upload session, and findCompletedUpload takes the file from its result. A client can't make the server keep (and later delete) a file it didn't upload itself.
+consumeUploads then deletes the session, so one upload backs one video, cover or avatar.
+Cleanup:
+Every session gets an expiresAt (UPLOAD_SESSION_TTL_MS, 24 hours) when it starts. Past it, cleanupExpiredUploadSessions deletes its staged chunks and the session document.
+A finished upload that was never used expires like an unfinished one, and its file is deleted from the storage (unless a video or avatar uses it after all).
+cleanupExpiredUploadSessions runs whenever a new upload starts (POST /api/uploads, POST /api/storage/upload), a cheap way to not need a cron job. It handles 50 sessions at a time.
+Limits:
+Sessions live until they are used, cancelled or expired. canOpenUploadSession caps how many a user has open (UPLOAD_MAX_OPEN_SESSIONS) and how many bytes they add up to (UPLOAD_MAX_OPEN_BYTES), so one account can't fill the staging disk or the storage.
+*/
@@ -0,0 +1,43 @@
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+export const BIO_MAX_LENGTH = 160;
+
+const USERNAME_PATTERN = /^[a-z0-9_.]+$/;
+
+export function normalizeUsername(username: string) {
+  return username.trim().toLowerCase();
+}
+
+// returns an error message, or null when the (already normalized) username is acceptable
+export function validateUsername(username: string) {
+  if (
+    username.length < USERNAME_MIN_LENGTH ||
+    username.length > USERNAME_MAX_LENGTH
+  ) {
+    return `Username must be ${USERNAME_MIN_LENGTH} to ${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return "Username can only contain letters, numbers, underscores and dots";
+  }
+  if (username.startsWith(".") || username.endsWith(".") || username.includes("..")) {
+    return "Username cannot start or end with a dot or contain two dots in a row";
+  }
+  return null;
+}
+
+// turns a display name or provider login ("Jane Doe", "jane-doe") into a valid username candidate ("jane_doe")
+export function suggestUsername(source: string) {
+  const candidate = normalizeUsername(source)
+    .replace(/[^a-z0-9_.]+/g, "_")
+    .replace(/\.{2,}/g, ".")
+    .replace(/^[._]+|[._]+$/g, "")
+    .slice(0, USERNAME_MAX_LENGTH);
+  return candidate.length >= USERNAME_MIN_LENGTH ? candidate : `user_${candidate}`.slice(0, USERNAME_MAX_LENGTH);
+}
+
+/*
+Username rules, shared by the register page (instant feedback) and the API routes (the real check):
+3 to 30 characters: lowercase letters, digits, "_" and ".", no leading/trailing/double dots.
+Usernames are case-insensitive: they are normalized to lowercase before validating and storing, so "Alice" and "alice" can't both exist.
+They end up in profile URLs (/u/[username]), which is why the character set is so small.
+*/
@@ -0,0 +1,366 @@
+import { normalizeUsername, validateUsername } from "./username";
+import { MAX_TAGS } from "./tags";
+import {
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASONS,
+  REPORT_TARGET_TYPES,
+  ReportReason,
+  ReportTargetType,
+  VIDEO_STATUSES,
+  VideoStatus,
+} from "./constants";
+
+export const TITLE_MAX_LENGTH = 100;
+export const DESCRIPTION_MAX_LENGTH = 2000;
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+export const VIDEO_MAX_BYTES = 500 * 1024 * 1024; // 500 MB, uploads are chunked (see lib/chunked-upload.ts)
+export const IMAGE_MAX_BYTES = 5 * 1024 * 1024; // 5 MB
+export const IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const BULK_UPLOAD_MAX_VIDEOS = 20; // per request to POST /api/videos/bulk
+
+export type FieldErrors = Record<string, string>;
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldErrors };
+
+export type VideoCreateInput = {
+  title: string;
+  description: string;
+  uploadId: string; // a finished video upload of the creator (see lib/videos.ts)
+  thumbnailTime: number | null;
+  coverUploadId?: string; // a finished image upload, when no frame was picked
+  controls: boolean;
+  quality?: number;
+  tags: string[];
+  status: VideoStatus;
+  publishAt: Date | null;
+};
+
+export type VideoUpdateInput = Partial<
+  Pick<
+    VideoCreateInput,
+    | "title"
+    | "description"
+    | "thumbnailTime"
+    | "coverUploadId"
+    | "controls"
+    | "quality"
+    | "tags"
+    | "status"
+    | "publishAt"
+  >
+>;
+
+export type RegistrationInput = {
+  email: string;
+  username: string;
+  password: string;
+};
+
+export type UploadFileType = "video" | "image";
+
+export type UploadSessionInput = {
+  fileName: string;
+  fileType: UploadFileType;
+  mimeType: string;
+  size: number;
+};
+
+export type ReportInput = {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+};
+
+// ---- field validators: return an error message, or null when the value is fine ----
+
+function validateText(value: unknown, label: string, maxLength: number) {
+  if (typeof value !== "string" || !value.trim()) return `${label} is required`;
+  if (value.trim().length > maxLength) {
+    return `${label} must be at most ${maxLength} characters`;
+  }
+  return null;
+}
+
+export function validateTitle(value: unknown) {
+  return validateText(value, "Title", TITLE_MAX_LENGTH);
+}
+
+export function validateDescription(value: unknown) {
+  return validateText(value, "Description", DESCRIPTION_MAX_LENGTH);
+}
+
+export function validateQuality(value: unknown) {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > 100) {
+    return "Quality must be a whole number between 1 and 100";
+  }
+  return null;
+}
+
+export function validateThumbnailTime(value: unknown) {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    return "Thumbnail time must be a number of seconds";
+  }
+  return null;
+}
+
+// the id of an upload session (POST /api/uploads); whose upload it is gets checked on the server
+export function validateUploadId(value: unknown) {
+  return typeof value === "string" && /^[a-f\d]{24}$/i.test(value) ? null : "Invalid upload ID";
+}
+
+export function validateVideoStatus(value: unknown) {
+  if (!VIDEO_STATUSES.includes(value as VideoStatus)) return "Please choose a valid status";
+  return null;
+}
+
+// only scheduled videos have a publishAt chosen by the creator, it must be in the future
+export function validatePublishAt(value: unknown) {
+  const date = typeof value === "string" || value instanceof Date ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) return "Please choose when to publish";
+  if (date.getTime() <= Date.now()) return "The publish date must be in the future";
+  return null;
+}
+
+export function validateTagList(value: unknown) {
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== "string")) {
+    return "Tags must be a list of words";
+  }
+  if (value.length > MAX_TAGS) return `At most ${MAX_TAGS} tags are allowed`;
+  return null;
+}
+
+// "  Alice@X.com " -> "alice@x.com", the form every email is stored and looked up in
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function validateEmail(value: unknown) {
+  if (typeof value !== "string" || !value.trim()) return "Email is required";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim())) {
+    return "Please enter a valid email address";
+  }
+  return null;
+}
+
+export function validatePassword(value: unknown) {
+  if (typeof value !== "string" || !value) return "Password is required";
+  if (value.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (value.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  }
+  if (!/[a-zA-Z]/.test(value) || !/[0-9]/.test(value)) {
+    return "Password must contain at least one letter and one number";
+  }
+  return null;
+}
+
+// checks a file before it is uploaded, in the browser (FileUpload) and again when the upload session is created
+export function validateUploadFile(fileType: UploadFileType, file: { type: string; size: number }) {
+  if (fileType === "video") {
+    if (!file.type.startsWith("video/")) return "Please upload a valid video file";
+    if (file.size > VIDEO_MAX_BYTES) {
+      return `Video size must be less than ${VIDEO_MAX_BYTES / 1024 / 1024}MB`;
+    }
+  } else {
+    if (!IMAGE_MIME_TYPES.includes(file.type)) {
+      return "Please upload a valid image file (JPEG, PNG, or WebP)";
+    }
+    if (file.size > IMAGE_MAX_BYTES) {
+      return `File size must be less than ${IMAGE_MAX_BYTES / 1024 / 1024}MB`;
+    }
+  }
+  if (file.size <= 0) return "The file is empty";
+  return null;
+}
+
+// ---- object schemas: validate a whole request body and keep only the known fields ----
+
+function isObject(input: unknown): input is Record<string, unknown> {
+  return typeof input === "object" && input !== null && !Array.isArray(input);
+}
+
+function collect(checks: Record<string, string | null>) {
+  const errors: FieldErrors = {};
+  for (const [field, error] of Object.entries(checks)) {
+    if (error) errors[field] = error;
+  }
+  return errors;
+}
+
+function qualityOf(input: Record<string, unknown>) {
+  const transformation = input.transformation;
+  return isObject(transformation) ? transformation.quality : undefined;
+}
+
+export function validateVideoCreate(input: unknown): ValidationResult<VideoCreateInput> {
+  if (!isObject(input)) return { success: false, errors: { body: "Invalid request body" } };
+
+  const quality = qualityOf(input);
+  const fromFrame = typeof input.thumbnailTime === "number";
+  const errors = collect({
+    title: validateTitle(input.title),
+    description: validateDescription(input.description),
+    uploadId: input.uploadId ? validateUploadId(input.uploadId) : "Please upload a video first",
+    thumbnailTime: input.thumbnailTime == null ? null : validateThumbnailTime(input.thumbnailTime),
+    coverUploadId:
+      fromFrame ? null : input.coverUploadId ? validateUploadId(input.coverUploadId) : "Thumbnail is required",
+    controls:
+      input.controls === undefined || typeof input.controls === "boolean" ? null : "Controls must be true or false",
+    quality: quality === undefined ? null : validateQuality(quality),
+    tags: input.tags === undefined ? null : validateTagList(input.tags),
+    status: input.status === undefined ? null : validateVideoStatus(input.status),
+    publishAt: input.status === "scheduled" ? validatePublishAt(input.publishAt) : null,
+  });
+
+  if (Object.keys(errors).length > 0) return { success: false, errors };
+
+  const status = (input.status as VideoStatus | undefined) ?? "published";
+  return {
+    success: true,
+    data: {
+      title: (input.title as string).trim(),
+      description: (input.description as string).trim(),
+      uploadId: input.uploadId as string,
+      thumbnailTime: fromFrame ? (input.thumbnailTime as number) : null,
+      coverUploadId: fromFrame ? undefined : (input.coverUploadId as string),
+      controls: (input.controls as boolean | undefined) ?? true,
+      quality: quality as number | undefined,
+      tags: (input.tags as string[] | undefined) ?? [],
+      status,
+      publishAt: status === "scheduled" ? new Date(input.publishAt as string) : null,
+    },
+  };
+}
+
+export function validateVideoUpdate(input: unknown): ValidationResult<VideoUpdateInput> {
+  if (!isObject(input)) return { success: false, errors: { body: "Invalid request body" } };
+
+  const quality = qualityOf(input);
+  const errors = collect({
+    title: input.title === undefined ? null : validateTitle(input.title),
+    description: input.description === undefined ? null : validateDescription(input.description),
+    thumbnailTime: input.thumbnailTime == null ? null : validateThumbnailTime(input.thumbnailTime),
+    coverUploadId: input.coverUploadId === undefined ? null : validateUploadId(input.coverUploadId),
+    controls:
+      input.controls === undefined || typeof input.controls === "boolean" ? null : "Controls must be true or false",
+    quality: quality === undefined ? null : validateQuality(quality),
+    tags: input.tags === undefined ? null : validateTagList(input.tags),
+    status: input.status === undefined ? null : validateVideoStatus(input.status),
+    publishAt: input.status === "scheduled" ? validatePublishAt(input.publishAt) : null,
+  });
+
+  if (Object.keys(errors).length > 0) return { success: false, errors };
+
+  const data: VideoUpdateInput = {};
+  if (input.title !== undefined) data.title = (input.title as string).trim();
+  if (input.description !== undefined) data.description = (input.description as string).trim();
+  if (typeof input.thumbnailTime === "number") data.thumbnailTime = input.thumbnailTime;
+  else if (input.coverUploadId !== undefined) data.coverUploadId = input.coverUploadId as string;
+  if (input.controls !== undefined) data.controls = input.controls as boolean;
+  if (quality !== undefined) data.quality = quality as number;
+  if (input.tags !== undefined) data.tags = input.tags as string[];
+  if (input.status !== undefined) {
+    data.status = input.status as VideoStatus;
+    data.publishAt = input.status === "scheduled" ? new Date(input.publishAt as string) : null;
+  }
+
+  if (Object.keys(data).length === 0) {
+    return { success: false, errors: { body: "Nothing to update" } };
+  }
+  return { success: true, data };
+}
+
+export function validateRegistration(input: unknown): ValidationResult<RegistrationInput> {
+  if (!isObject(input)) return { success: false, errors: { body: "Invalid request body" } };
+
+  const username = typeof input.username === "string" ? normalizeUsername(input.username) : "";
+  const errors = collect({
+    email: validateEmail(input.email),
+    username: username ? validateUsername(username) : "Username is required",
+    password: validatePassword(input.password),
+  });
+
+  if (Object.keys(errors).length > 0) return { success: false, errors };
+
+  return {
+    success: true,
+    data: {
+      email: normalizeEmail(input.email as string),
+      username,
+      password: input.password as string,
+    },
+  };
+}
+
+export function validateReport(input: unknown): ValidationResult<ReportInput> {
+  if (!isObject(input)) return { success: false, errors: { body: "Invalid request body" } };
+
+  const errors = collect({
+    targetType: REPORT_TARGET_TYPES.includes(input.targetType as ReportTargetType)
+      ? null
+      : "Only videos and comments can be reported",
+    targetId: typeof input.targetId === "string" && /^[a-f\d]{24}$/i.test(input.targetId)
+      ? null
+      : "Invalid target ID",
+    reason: REPORT_REASONS.includes(input.reason as ReportReason) ? null : "Please pick a reason",
+    details:
+      input.details === undefined ||
+      (typeof input.details === "string" && input.details.trim().length <= REPORT_DETAILS_MAX_LENGTH)
+        ? null
+        : `Details must be at most ${REPORT_DETAILS_MAX_LENGTH} characters`,
+  });
+
+  if (Object.keys(errors).length > 0) return { success: false, errors };
+
+  return {
+    success: true,
+    data: {
+      targetType: input.targetType as ReportTargetType,
+      targetId: input.targetId as string,
+      reason: input.reason as ReportReason,
+      details: (input.details as string | undefined)?.trim() || undefined,
+    },
+  };
+}
+
+export function validateUploadSession(input: unknown): ValidationResult<UploadSessionInput> {
+  if (!isObject(input)) return { success: false, errors: { body: "Invalid request body" } };
+
+  const fileType = input.fileType === "video" || input.fileType === "image" ? input.fileType : null;
+  const fileName = typeof input.fileName === "string" ? input.fileName.trim() : "";
+  const mimeType = typeof input.mimeType === "string" ? input.mimeType : "";
+  const size = Number.isSafeInteger(input.size) ? (input.size as number) : -1;
+
+  const errors = collect({
+    fileType: fileType ? null : "File type must be \"video\" or \"image\"",
+    fileName: fileName && fileName.length <= 255 ? null : "Invalid file name",
+    file: fileType ? validateUploadFile(fileType, { type: mimeType, size }) : null,
+  });
+
+  if (Object.keys(errors).length > 0) return { success: false, errors };
+  return { success: true, data: { fileName, fileType: fileType!, mimeType, size } };
+}
+
+// the first field error, for places that show a single message
+export function firstError(errors: FieldErrors) {
+  return Object.values(errors)[0] ?? "Invalid input";
+}
+
+/*
+Validation schemas shared by the API routes and the forms.
+Why shared?
+The forms call the same field validators (validateTitle, validatePassword, ...) to show errors instantly, and the API routes run the full schemas (validateVideoCreate, validateRegistration, ...) as the real check. The rules can't drift apart.
+Schemas:
+Each returns { success: true, data } or { success: false, errors }, errors being one message per field (e.g. { title: "Title is required" }).
+data contains only the known fields (whitelist), trimmed and with defaults applied; routes persist data, never the raw body, so clients can't set fields like owner or likeCount.
+Files are named by upload id (uploadId, coverUploadId), never by storage path or id: the server looks them up among the caller's own finished uploads.
+API routes answer a failed validation with:
+400 { error: "<first message>", fieldErrors: { field: "message", ... } }
+This file must stay free of server-only imports (mongoose, next/server, the models), since client components import it. Enums shared with the models come from lib/constants.ts.
+*/
@@ -0,0 +1,36 @@
+import mongoose from "mongoose";
+import { appUrl, sendEmailChangeEmail, sendVerificationEmail } from "./emails";
+import { createAuthToken, lastTokenCreatedAt } from "./tokens";
+
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+export const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between two emails
+
+type VerifiableUser = { _id: mongoose.Types.ObjectId; email: string };
+
+export async function sendVerificationLink(user: VerifiableUser, origin: string) {
+  const token = await createAuthToken(
+    user._id,
+    "email-verification",
+    EMAIL_VERIFICATION_TTL_MS
+  );
+  await sendVerificationEmail(
+    user.email,
+    appUrl(`/verify-email?token=${token}`, origin)
+  );
+}
+
+// sends the confirmation link of an email change to the new address (the user's pendingEmail)
+export async function sendEmailChangeLink(user: VerifiableUser, newEmail: string, origin: string) {
+  const token = await createAuthToken(user._id, "email-change", EMAIL_VERIFICATION_TTL_MS);
+  await sendEmailChangeEmail(newEmail, appUrl(`/confirm-email?token=${token}`, origin));
+}
+
+// milliseconds the user still has to wait before another email of this type can be sent (0 = now)
+export async function verificationCooldownRemaining(
+  user: VerifiableUser,
+  type: "email-verification" | "email-change" = "email-verification"
+) {
+  const last = await lastTokenCreatedAt(user._id, type);
+  if (!last) return 0;
+  return Math.max(0, last.getTime() + VERIFICATION_RESEND_COOLDOWN_MS - Date.now());
+}
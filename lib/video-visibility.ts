@@ -0,0 +1,78 @@
+import { canModerate } from "./roles";
+import { VideoStatus } from "./constants";
+
+type Viewer = { id?: string; role?: string } | undefined;
+
+type VisibilityFields = {
+  isHidden?: boolean;
+  owner?: { toString(): string } | string; // an ObjectId or its string; no mongoose import, VideoComponent uses this file
+  status?: VideoStatus;
+  publishAt?: Date | string | null;
+};
+
+// statuses that are never listed publicly, whatever their publishAt
+const UNLISTED_STATUSES: VideoStatus[] = ["draft", "unlisted", "private"];
+
+// added to the query of every public listing (feed, search, tags, profiles...), so only published videos show up there
+export function publicVideoFilter() {
+  return {
+    isHidden: { $ne: true },
+    status: { $nin: UNLISTED_STATUSES },
+    publishAt: { $not: { $gt: new Date() } }, // a scheduled video appears once its time has come
+  };
+}
+
+// videos anyone with the link can open: the public ones plus unlisted ones (for likes, comments and reports)
+export function linkedVideoFilter() {
+  return {
+    $and: [
+      { isHidden: { $ne: true } },
+      {
+        $or: [
+          { status: "unlisted" },
+          { status: { $nin: UNLISTED_STATUSES }, publishAt: { $not: { $gt: new Date() } } },
+        ],
+      },
+    ],
+  };
+}
+
+// whether a video is live: published, or scheduled with its publishAt in the past
+export function isPublished(video: Pick<VisibilityFields, "status" | "publishAt">) {
+  if (video.status && UNLISTED_STATUSES.includes(video.status)) return false;
+  return !video.publishAt || new Date(video.publishAt) <= new Date();
+}
+
+// the status the owner sees: a scheduled video whose publishAt has passed is published
+export function effectiveStatus(video: Pick<VisibilityFields, "status" | "publishAt">): VideoStatus {
+  if (video.status === "scheduled") return isPublished(video) ? "published" : "scheduled";
+  return video.status ?? "published";
+}
+
+// query matching the videos whose effectiveStatus is the given one (for the owner's own lists)
+export function videoStatusFilter(status: VideoStatus) {
+  if (status === "published") {
+    return { status: { $nin: UNLISTED_STATUSES }, publishAt: { $not: { $gt: new Date() } } };
+  }
+  if (status === "scheduled") return { status, publishAt: { $gt: new Date() } };
+  return { status };
+}
+
+// the owner can always open their video; everyone else only a live or unlisted one, and a hidden one only moderators
+export function canViewVideo(video: VisibilityFields, viewer: Viewer) {
+  if (viewer?.id && video.owner?.toString() === viewer.id) return true;
+  if (!isPublished(video) && video.status !== "unlisted") return false;
+  if (!video.isHidden) return true;
+  return canModerate(viewer?.role);
+}
+
+/*
+Video visibility rules, in one place so every route applies the same ones.
+publicVideoFilter(): spread into a find() / $match, e.g. Video.find({ tags: tag, ...publicVideoFilter() }).
+It has no $or of its own, so it can be spread next to afterCursor() (lib/pagination.ts), which has one.
+$ne / $nin / $not rather than equality so videos created before isHidden, status or publishAt existed still count as published.
+A scheduled video needs no job to go live: from publishAt on, it simply matches the filter. Listings stay sorted by createdAt, so it shows up at the position of its upload date.
+linkedVideoFilter(): for actions on a single video that people can reach by link (liking, commenting, reporting), unlisted videos included. Wrapped in $and so it can be spread next to an _id.
+effectiveStatus() / videoStatusFilter(): the same rules from the owner's side, for the status badges and tabs of "My reels".
+canViewVideo(): for routes that load a single video by id (the watch page). A draft, private or not yet published video looks like a missing one to everyone but its owner.
+*/
@@ -0,0 +1,68 @@
+import { buildTags, extractTags } from "./tags";
+import { frameThumbnailPath } from "./thumbnails";
+import { findCompletedUpload } from "./upload-storage";
+import { FieldErrors, VideoCreateInput } from "./validation";
+import { IVideo } from "@/models/Video";
+
+export type VideoFiles = {
+  videoUrl: string;
+  fileId: string;
+  thumbnailUrl: string;
+  thumbnailFileId?: string;
+};
+
+// one entry of the results of POST /api/videos/bulk, what the route sends and apiClient.createVideos reads
+export type BulkCreateItemResult =
+  | { index: number; success: true; video: IVideo }
+  | { index: number; success: false; error: string; fieldErrors?: FieldErrors };
+
+// the stored files behind uploadId and coverUploadId, which must be finished uploads of the owner
+export async function resolveVideoFiles(
+  body: VideoCreateInput,
+  owner: string
+): Promise<{ files: VideoFiles } | { errors: FieldErrors }> {
+  const video = await findCompletedUpload(body.uploadId, owner, "video");
+  if (!video) return { errors: { uploadId: "Please upload a video first" } };
+
+  // a picked frame is always turned into its thumbnail here
+  if (body.thumbnailTime !== null) {
+    return {
+      files: {
+        videoUrl: video.filePath,
+        fileId: video.fileId,
+        thumbnailUrl: frameThumbnailPath(video.filePath, body.thumbnailTime),
+      },
+    };
+  }
+
+  const cover = body.coverUploadId ? await findCompletedUpload(body.coverUploadId, owner, "image") : null;
+  if (!cover) return { errors: { coverUploadId: "Please upload a cover image" } };
+  return {
+    files: {
+      videoUrl: video.filePath,
+      fileId: video.fileId,
+      thumbnailUrl: cover.filePath,
+      thumbnailFileId: cover.fileId,
+    },
+  };
+}
+
+// the document for a new video from validated input (validateVideoCreate), shared by single and bulk creation
+export function newVideoData(body: VideoCreateInput, files: VideoFiles, owner: string) {
+  return {
+    title: body.title,
+    description: body.description,
+    ...files,
+    thumbnailTime: body.thumbnailTime,
+    owner, // stamping the logged in user as the owner
+    tags: buildTags(body.tags, extractTags(body.description)),
+    controls: body.controls,
+    status: body.status,
+    publishAt: body.status === "published" ? new Date() : body.publishAt, // the schema only keeps a date for scheduled videos
+    transformation: {
+      height: 1920,
+      width: 1080,
+      quality: body.quality ?? 100,
+    },
+  };
+}
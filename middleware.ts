@@ -1,5 +1,6 @@
 import { withAuth } from "next-auth/middleware";
 import { NextResponse } from "next/server";
+import { canModerate } from "@/lib/roles";
 /*
 withAuth: A helper from NextAuth that wraps your middleware to add authentication/authorization logic to your routes.
 NextResponse: Used to create responses in Next.js middleware.
@@ -25,16 +26,38 @@ export default withAuth( // This middleware function is used to protect routes,
         // Allow auth-related routes
         if (
           pathname.startsWith("/api/auth") ||
+          pathname === "/api/account/email/confirm" ||
           pathname === "/login" ||
-          pathname === "/register"
+          pathname === "/register" ||
+          pathname === "/verify-email" ||
+          pathname === "/confirm-email" ||
+          pathname === "/forgot-password" ||
+          pathname === "/reset-password"
         ) {
           return true;
         }
 
         // Public routes
-        if (pathname === "/" || pathname.startsWith("/api/videos")) {
+        if (
+          pathname === "/" ||
+          pathname === "/reels" ||
+          pathname === "/search" ||
+          pathname.startsWith("/api/videos") ||
+          pathname.startsWith("/api/users") ||
+          pathname.startsWith("/api/tags") ||
+          pathname.startsWith("/api/profiles") ||
+          pathname.startsWith("/api/media") ||
+          pathname.startsWith("/u/") ||
+          pathname.startsWith("/tags/") ||
+          (pathname.startsWith("/videos/") && !pathname.endsWith("/edit"))
+        ) {
           return true;
         }
+        // The admin dashboard and its API are only for moderators and admins (re-checked against the database in lib/admin.ts)
+        if (pathname.startsWith("/admin") || pathname.startsWith("/api/admin")) {
+          return canModerate(token?.role);
+        }
+
         // All other routes require authentication
         return !!token;
       },
@@ -44,8 +67,9 @@ export default withAuth( // This middleware function is used to protect routes,
 
 /*
 Extracts the pathname from the request URL.
-Allows access to authentication-related routes (/api/auth, /login, /register) for everyone, even if not logged in.
-Allows access to public routes (/ and /api/videos...) for everyone.
+Allows access to authentication-related routes (/api/auth, /login, /register, /verify-email, /confirm-email and its API route, /forgot-password, /reset-password) for everyone, even if not logged in.
+Allows access to public routes (/, /reels, /search, /api/videos..., /api/users..., /api/tags..., /api/profiles..., /tags/[tag], /u/[username] and the /videos/[id] watch page, but not its /edit page) for everyone.
+Allows /admin and /api/admin only when the token carries the "moderator" or "admin" role.
 For all other routes:
 Returns true if a valid authentication token exists (i.e., the user is logged in).
 Returns false (blocks access) if not authenticated.
@@ -0,0 +1,33 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export interface IAccount {
+  _id?: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  provider: string;
+  providerAccountId: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+/*
+IAccount: Links a user to an OAuth identity (one document per provider the user signed in with).
+user: The _id of the User this identity belongs to.
+provider: The NextAuth provider id, e.g. "github" or "google".
+providerAccountId: The user's id at that provider (GitHub's numeric id, Google's "sub"). Stable even if the email there changes.
+A user can have any number of linked accounts, plus (or instead of) a password.
+*/
+
+const accountSchema = new Schema<IAccount>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    provider: { type: String, required: true },
+    providerAccountId: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+accountSchema.index({ provider: 1, providerAccountId: 1 }, { unique: true });
+// one user per provider identity: the same GitHub account can't end up linked to two users
+
+const Account = models?.Account || model<IAccount>("Account", accountSchema);
+
+export default Account;
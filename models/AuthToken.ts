@@ -0,0 +1,45 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export const AUTH_TOKEN_TYPES = ["email-verification", "password-reset", "email-change"] as const;
+export type AuthTokenType = (typeof AUTH_TOKEN_TYPES)[number];
+
+export interface IAuthToken {
+  _id?: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  type: AuthTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/*
+IAuthToken: A one-time token emailed to a user (see lib/tokens.ts).
+user: The _id of the User the token belongs to.
+type: What the token can be used for, a verification token can't be used to reset a password and vice versa. "email-change" confirms the new address of a user (User.pendingEmail).
+tokenHash: SHA-256 of the token. The token itself only exists in the email, so a database leak doesn't hand out working links.
+expiresAt: After this date the token is rejected (and MongoDB deletes the document, see the TTL index below).
+usedAt: Set when the token is consumed; a used token can't be used again.
+*/
+
+const authTokenSchema = new Schema<IAuthToken>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    type: { type: String, enum: AUTH_TOKEN_TYPES, required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+// TTL index: MongoDB removes each token document on its own once expiresAt has passed
+authTokenSchema.index({ user: 1, type: 1, createdAt: -1 });
+// latest token of a user per type, used for the resend cooldown
+
+const AuthToken =
+  models?.AuthToken || model<IAuthToken>("AuthToken", authTokenSchema);
+
+export default AuthToken;
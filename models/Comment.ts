@@ -0,0 +1,51 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { COMMENT_MAX_LENGTH, HIDDEN_BY, HiddenBy } from "@/lib/constants";
+
+export { COMMENT_MAX_LENGTH };
+
+export interface IComment {
+  _id?: mongoose.Types.ObjectId;
+  video: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  parent?: mongoose.Types.ObjectId | null;
+  body: string;
+  isHidden?: boolean;
+  hiddenBy?: HiddenBy | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/*
+IComment: A comment on a video.
+video: The _id of the Video the comment belongs to.
+author: The _id of the User who wrote it.
+parent: For a reply, the _id of the top-level comment it answers; null for top-level comments.
+Only one level of replies exists: a reply's parent is always a top-level comment.
+body: The comment text, trimmed, 1 to COMMENT_MAX_LENGTH characters.
+isHidden: Set when moderators (or enough user reports) take the comment down; hidden comments are left out of the thread.
+hiddenBy: "reports" or "moderator", like Video.hiddenBy.
+*/
+
+const commentSchema = new Schema<IComment>(
+  {
+    video: { type: Schema.Types.ObjectId, ref: "Video", required: true },
+    author: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    parent: { type: Schema.Types.ObjectId, ref: "Comment", default: null },
+    body: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: COMMENT_MAX_LENGTH,
+    },
+    isHidden: { type: Boolean, default: false },
+    hiddenBy: { type: String, enum: HIDDEN_BY, default: null },
+  },
+  { timestamps: true }
+);
+
+commentSchema.index({ video: 1, parent: 1, createdAt: -1, _id: -1 });
+// serves both "top-level comments of a video, newest first" (parent: null) and "replies of these comments"
+
+const Comment = models?.Comment || model<IComment>("Comment", commentSchema);
+
+export default Comment;
@@ -0,0 +1,36 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export interface IFollow {
+  _id?: mongoose.Types.ObjectId;
+  follower: mongoose.Types.ObjectId;
+  following: mongoose.Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/*
+IFollow: One edge of the social graph, "follower follows following".
+follower: The _id of the User who clicked "Follow".
+following: The _id of the User being followed (the creator).
+*/
+
+const followSchema = new Schema<IFollow>(
+  {
+    follower: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    following: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  { timestamps: true }
+);
+
+followSchema.index({ follower: 1, following: 1 }, { unique: true });
+followSchema.index({ following: 1, createdAt: -1, _id: -1 });
+followSchema.index({ follower: 1, createdAt: -1, _id: -1 });
+/*
+{ follower, following } unique: a user can follow another one only once, even with concurrent requests.
+{ following, createdAt, _id }: "who follows X" lists and follower counts, newest followers first.
+{ follower, createdAt, _id }: "who does X follow" lists, following counts and the Following feed.
+*/
+
+const Follow = models?.Follow || model<IFollow>("Follow", followSchema);
+
+export default Follow;
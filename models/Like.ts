@@ -0,0 +1,34 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export interface ILike {
+  _id?: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  video: mongoose.Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/*
+ILike: One "like" of one video by one user.
+user: The _id of the User who liked the video.
+video: The _id of the liked Video.
+*/
+
+const likeSchema = new Schema<ILike>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    video: { type: Schema.Types.ObjectId, ref: "Video", required: true, index: true },
+  },
+  { timestamps: true }
+);
+
+likeSchema.index({ user: 1, video: 1 }, { unique: true });
+/*
+The unique compound index is what makes likes safe under concurrent requests:
+If the same user double-clicks and two POSTs race, MongoDB accepts exactly one insert and rejects the other with a duplicate key error (code 11000).
+The API route only increments Video.likeCount when its insert actually succeeded, so the counter can't drift.
+*/
+
+const Like = models?.Like || model<ILike>("Like", likeSchema);
+
+export default Like;
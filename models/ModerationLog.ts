@@ -0,0 +1,55 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export const MODERATION_ACTIONS = [
+  "video.hide",
+  "video.unhide",
+  "comment.hide",
+  "comment.unhide",
+  "user.suspend",
+  "user.unsuspend",
+  "user.role",
+  "reports.resolve",
+  "reports.dismiss",
+] as const;
+export const MODERATION_TARGET_TYPES = ["video", "comment", "user"] as const;
+
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+export type ModerationTargetType = (typeof MODERATION_TARGET_TYPES)[number];
+
+export interface IModerationLog {
+  _id?: mongoose.Types.ObjectId;
+  actor?: mongoose.Types.ObjectId | null;
+  action: ModerationAction;
+  targetType: ModerationTargetType;
+  target: mongoose.Types.ObjectId;
+  details?: string;
+  createdAt?: Date;
+}
+/*
+IModerationLog: The audit trail, one entry per moderation action.
+actor: The _id of the moderator or admin who did it; null when the app did it on its own (an item auto-hidden after too many reports).
+action: What was done, e.g. "video.hide" or "reports.dismiss".
+targetType / target: The video, comment or user it was done to.
+details: A short human readable note, e.g. "role: user -> moderator" or "auto-hidden after 5 reports".
+Entries are only ever added, never edited or deleted.
+*/
+
+const moderationLogSchema = new Schema<IModerationLog>(
+  {
+    actor: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    action: { type: String, enum: MODERATION_ACTIONS, required: true },
+    targetType: { type: String, enum: MODERATION_TARGET_TYPES, required: true },
+    target: { type: Schema.Types.ObjectId, required: true },
+    details: { type: String },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+moderationLogSchema.index({ createdAt: -1, _id: -1 });
+// newest first for the audit log page, same cursor pagination as the feed (see lib/pagination.ts)
+
+const ModerationLog =
+  models?.ModerationLog ||
+  model<IModerationLog>("ModerationLog", moderationLogSchema);
+
+export default ModerationLog;
@@ -0,0 +1,30 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export interface IRateLimitHit {
+  _id?: mongoose.Types.ObjectId;
+  key: string;
+  at: Date;
+  expiresAt: Date;
+}
+
+/*
+IRateLimitHit: One request counted by the Mongo rate limit store (see lib/rate-limit.ts).
+key: What is being limited, e.g. "login-ip:203.0.113.7" or "login-failure:alice@example.com".
+at: When the request happened.
+expiresAt: When the hit falls out of its window; MongoDB deletes it after that (TTL index).
+*/
+
+const rateLimitHitSchema = new Schema<IRateLimitHit>({
+  key: { type: String, required: true },
+  at: { type: Date, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+rateLimitHitSchema.index({ key: 1, at: -1 });
+rateLimitHitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RateLimitHit =
+  models?.RateLimitHit ||
+  model<IRateLimitHit>("RateLimitHit", rateLimitHitSchema);
+
+export default RateLimitHit;
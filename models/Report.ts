@@ -0,0 +1,64 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+import {
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASONS,
+  REPORT_STATUSES,
+  REPORT_TARGET_TYPES,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+} from "@/lib/constants";
+
+export { REPORT_DETAILS_MAX_LENGTH, REPORT_REASONS, REPORT_STATUSES, REPORT_TARGET_TYPES };
+export type { ReportReason, ReportStatus, ReportTargetType };
+
+export interface IReport {
+  _id?: mongoose.Types.ObjectId;
+  reporter: mongoose.Types.ObjectId;
+  targetType: ReportTargetType;
+  target: mongoose.Types.ObjectId;
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  handledBy?: mongoose.Types.ObjectId | null;
+  handledAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+/*
+IReport: One user flagging one video or comment.
+reporter: The _id of the User who sent the report.
+targetType / target: What is reported, a "video" or a "comment", and its _id.
+reason: One of REPORT_REASONS, picked from a list in the report form.
+details: Optional free text from the reporter, up to REPORT_DETAILS_MAX_LENGTH characters.
+status: "open" until a moderator handles the item; then "resolved" (the report was right, the item stays hidden) or "dismissed" (nothing wrong, the item is visible again).
+handledBy / handledAt: The moderator who resolved or dismissed it, and when.
+Reports are never shown one by one to moderators: the queue groups them per item (see app/api/admin/reports/route.ts).
+*/
+
+const reportSchema = new Schema<IReport>(
+  {
+    reporter: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    targetType: { type: String, enum: REPORT_TARGET_TYPES, required: true },
+    target: { type: Schema.Types.ObjectId, required: true },
+    reason: { type: String, enum: REPORT_REASONS, required: true },
+    details: { type: String, trim: true, maxlength: REPORT_DETAILS_MAX_LENGTH },
+    status: { type: String, enum: REPORT_STATUSES, default: "open" },
+    handledBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    handledAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+reportSchema.index(
+  { reporter: 1, targetType: 1, target: 1 },
+  { unique: true, partialFilterExpression: { status: "open" } }
+);
+reportSchema.index({ status: 1, targetType: 1, target: 1 });
+// one open report per user and item, so a single user can't push an item over the auto-hide threshold; once handled they may report it again
+// the queue groups open reports per item, and handling an item updates all of its open reports at once
+
+const Report = models?.Report || model<IReport>("Report", reportSchema);
+
+export default Report;
@@ -0,0 +1,63 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export const UPLOAD_SESSION_STATUSES = ["uploading", "finalizing", "complete"] as const;
+export type UploadSessionStatus = (typeof UPLOAD_SESSION_STATUSES)[number];
+
+export interface IUploadSession {
+  _id?: mongoose.Types.ObjectId;
+  owner: mongoose.Types.ObjectId;
+  fileName: string;
+  fileType: "video" | "image";
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  receivedBytes: number;
+  status: UploadSessionStatus;
+  result?: {
+    fileId: string;
+    filePath: string;
+    url: string;
+    thumbnailUrl?: string;
+  } | null;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/*
+IUploadSession: One file being uploaded in chunks (see lib/upload-storage.ts and lib/chunked-upload.ts).
+owner: The _id of the User uploading; nobody else can send chunks to, complete or cancel the session.
+fileName, fileType, mimeType, size: What the browser announced when the upload started, checked with validateUploadFile (lib/validation.ts).
+chunkSize: The size of every chunk but the last one, chosen by the server.
+receivedBytes: How many bytes from the start of the file are stored; the next chunk must start exactly there.
+status: "uploading" while chunks come in, "finalizing" while the assembled file is handed to the storage (so two completion requests can't store it twice), "complete" after.
+result: Where the finished file ended up, returned to the client again if it repeats the completion request.
+expiresAt: Unfinished sessions are given up after this date and their staged chunks deleted.
+*/
+
+const uploadSessionSchema = new Schema<IUploadSession>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    fileName: { type: String, required: true },
+    fileType: { type: String, enum: ["video", "image"], required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true, min: 1 },
+    chunkSize: { type: Number, required: true, min: 1 },
+    receivedBytes: { type: Number, default: 0, min: 0 },
+    status: { type: String, enum: UPLOAD_SESSION_STATUSES, default: "uploading" },
+    result: {
+      type: { _id: false, fileId: String, filePath: String, url: String, thumbnailUrl: String },
+      default: null,
+    },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+uploadSessionSchema.index({ expiresAt: 1 });
+// expired sessions are cleaned up by lib/upload-storage.ts rather than a TTL index, since their staged chunks on disk must go too
+
+const UploadSession =
+  models?.UploadSession || model<IUploadSession>("UploadSession", uploadSessionSchema);
+
+export default UploadSession;
@@ -1,5 +1,7 @@
 import mongoose, { Schema, model, models } from "mongoose";
 import bcrypt from "bcryptjs";
+import { USER_ROLES, UserRole } from "@/lib/constants";
+import { BIO_MAX_LENGTH, USERNAME_MAX_LENGTH } from "@/lib/username";
 /*
 mongoose: The main ODM (Object Data Modeling) library for MongoDB in Node.js/TypeScript. Handles schemas, models, and connections.
 Schema: Used to define the structure of documents in a MongoDB collection.
@@ -8,9 +10,26 @@ models: An object containing all models defined in the current Mongoose connecti
 bcrypt: Library for hashing passwords securely.
  */
 
+export { USER_ROLES };
+export type { UserRole };
+
 export interface IUser {
   email: string;
-  password: string;
+  pendingEmail?: string;
+  password?: string;
+  username?: string;
+  bio?: string;
+  avatarUrl?: string;
+  avatarFileId?: string;
+  isVerified?: boolean;
+  passwordChangedAt?: Date;
+  role?: UserRole;
+  suspendedAt?: Date | null;
+  twoFactorEnabled?: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorLastStep?: number | null;
+  twoFactorRecoveryCodes?: { hash: string; usedAt: Date | null }[];
   _id?: mongoose.Types.ObjectId;
   createdAt?: Date;
   updatedAt?: Date;
@@ -18,28 +37,62 @@ export interface IUser {
 /*
 IUser: TypeScript interface describing the shape of a user document.
 email: User’s email (required).
-password: User’s hashed password (required).
+pendingEmail: The new address the user asked to switch to, until they click the link sent there (see app/api/account/email/route.ts). Login keeps using email meanwhile.
+password: User’s hashed password; missing for users who only ever signed in with GitHub/Google (see lib/oauth.ts).
+username: Unique public handle used in profile URLs (/u/[username]), stored lowercase (see lib/username.ts). Optional only because accounts created before usernames existed don't have one.
+bio: Short public description shown on the profile page.
+avatarUrl: Storage file path of the profile picture.
+avatarFileId: The storage's id for that file, to delete it when the avatar is replaced or the account deleted. Server only, left out of queries unless asked for with .select("+avatarFileId").
+passwordChangedAt: When the password was last reset; sessions started before it are rejected (see lib/auth.ts).
+isVerified: Whether the user clicked the link in the verification email; unverified users can't publish videos.
+role: "user" for everyone; "moderator" can open the /admin dashboard to handle reports and hide content; "admin" can also suspend accounts and change roles. Only an admin can change it (see app/api/admin/users/[id]/route.ts).
+suspendedAt: Set by an admin to suspend the account; a suspended user can't log in and their open sessions end (see lib/auth.ts).
+twoFactorEnabled ... twoFactorRecoveryCodes: Two-factor authentication state, see lib/two-factor.ts. Never sent to the client.
 _id: MongoDB’s unique identifier for the document (optional, auto-generated).
 createdAt, updatedAt: Timestamps for when the document was created/updated (optional, auto-managed by Mongoose)
 */
 
 const userSchema = new Schema<IUser>(
   {
-    email: { type: String, required: true, unique: true },
-    password: { type: String, required: true },
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true }, // existing rows: scripts/normalize-user-emails.mjs
+    pendingEmail: { type: String },
+    password: { type: String }, // optional: OAuth-only users have none
+    username: {
+      type: String,
+      unique: true,
+      sparse: true, // older accounts have no username, they must not collide on "null"
+      lowercase: true,
+      trim: true,
+      maxlength: USERNAME_MAX_LENGTH,
+    },
+    bio: { type: String, trim: true, maxlength: BIO_MAX_LENGTH, default: "" },
+    avatarUrl: { type: String },
+    avatarFileId: { type: String, select: false },
+    isVerified: { type: Boolean, default: false },
+    passwordChangedAt: { type: Date },
+    role: { type: String, enum: USER_ROLES, default: "user" },
+    suspendedAt: { type: Date, default: null },
+    twoFactorEnabled: { type: Boolean, default: false },
+    twoFactorSecret: { type: String }, // encrypted, see lib/two-factor.ts
+    twoFactorPendingSecret: { type: String },
+    twoFactorLastStep: { type: Number, default: null },
+    twoFactorRecoveryCodes: {
+      type: [{ _id: false, hash: String, usedAt: { type: Date, default: null } }],
+      default: [],
+    },
   },
   { timestamps: true }
 );
 
 /*
 userSchema: Defines the structure and rules for user documents in MongoDB.
-email: Must be a string, is required, and must be unique (no two users can have the same email).
-password: Must be a string and is required.
+email: Must be a string, is required, and must be unique (no two users can have the same email). Stored lowercase and trimmed, Mongoose applies the same to query filters, so "Alice@X.com" finds "alice@x.com".
+password: A string, optional: users created through GitHub/Google sign-in have none until they set one (see lib/oauth.ts). Hashed by the pre-save hook below.
 { timestamps: true }: Automatically adds and manages createdAt and updatedAt fields.
 */
 
 userSchema.pre("save", async function (next) { // 'pre' used to hash password before saving
-  if (this.isModified("password")) { // if the password is modified or being set for the first time
+  if (this.password && this.isModified("password")) { // if the password is modified or being set for the first time (and not removed)
     // 'this' refers to the current document being saved
     // 'isModified' checks if the password field has been changed
     // 'bcrypt.hash' hashes the password with a salt rounds of 10
@@ -50,8 +103,8 @@ userSchema.pre("save", async function (next) { // 'pre' used to hash password be
 
 /*
 userSchema: Defines the structure and rules for user documents in MongoDB.
-email: Must be a string, is required, and must be unique (no two users can have the same email).
-password: Must be a string and is required.
+email: Must be a string, is required, and must be unique (no two users can have the same email). Stored lowercase and trimmed, Mongoose applies the same to query filters, so "Alice@X.com" finds "alice@x.com".
+password: A string, optional: users created through GitHub/Google sign-in have none until they set one (see lib/oauth.ts). Hashed by the pre-save hook below.
 { timestamps: true }: Automatically adds and manages createdAt and updatedAt fields.
 */
 
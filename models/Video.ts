@@ -7,13 +7,13 @@ models: An object containing all models defined in the current Mongoose connecti
 
  */
 
-export const VIDEO_DIMENSIONS = {
-  width: 1080,
-  height: 1920,
-} as const;
+import { HIDDEN_BY, HiddenBy, VIDEO_DIMENSIONS, VIDEO_STATUSES, VideoStatus } from "@/lib/constants";
+
+export { VIDEO_DIMENSIONS, VIDEO_STATUSES };
+export type { VideoStatus };
 
 /*
-VIDEO_DIMENSIONS: An object defining the default width and height for videos.
+VIDEO_DIMENSIONS: An object defining the default width and height for videos (defined in lib/constants.ts so the browser can use it without mongoose).
 as const: Ensures the values are treated as immutable literals (TypeScript feature).
 Purpose: Used as default values for video transformation, ensuring consistency across the app.
 */
@@ -24,6 +24,17 @@ export interface IVideo {
   description: string;
   videoUrl: string;
   thumbnailUrl: string;
+  thumbnailTime?: number | null;
+  thumbnailFileId?: string;
+  fileId?: string;
+  tags?: string[];
+  owner?: mongoose.Types.ObjectId;
+  likeCount?: number;
+  likedByMe?: boolean;
+  isHidden?: boolean;
+  hiddenBy?: HiddenBy | null;
+  status?: VideoStatus;
+  publishAt?: Date | null;
   controls?: boolean;
   transformation?: {
     height: number;
@@ -40,7 +51,24 @@ _id: MongoDB’s unique identifier for the document (optional, auto-generated).
 title: The title of the video (required).
 description: The description of the video (required).
 videoUrl: The URL where the video is stored (required).
-thumbnailUrl: The URL for the video’s thumbnail image (required).
+thumbnailUrl: The URL for the video’s thumbnail image (required). Usually a storage path: an uploaded cover image, or a frame of the video (see lib/thumbnails.ts).
+thumbnailTime: When the thumbnail is a frame of the video, the second it was taken at; null for an uploaded cover.
+thumbnailFileId: The storage's id for an uploaded cover image, deleted from the storage together with the video. Server only.
+fileId: The storage's id for the uploaded file (optional), needed to delete the asset from the storage when the video is deleted. Server only, both come from the owner's finished upload (see lib/videos.ts).
+tags: Normalized hashtags (lowercase, no "#"), parsed from the description plus any explicit tags (see lib/tags.ts).
+owner: The _id of the User who published the video (set by the server from the session, never by the client).
+likeCount: How many users liked the video, a counter kept in sync with the likes collection (see models/Like.ts).
+likedByMe: Whether the logged in user liked the video; not stored, the API adds it to each response (see lib/likes.ts).
+isHidden: Set by an admin from the moderation dashboard; hidden videos are left out of every public listing (see lib/video-visibility.ts).
+hiddenBy: Why the video is hidden: "reports" (auto-hidden, brought back when a moderator dismisses them) or "moderator" (stays hidden until a moderator unhides it). See lib/moderation.ts.
+status: Who can see the video (see lib/video-visibility.ts):
+"draft": only the owner, not finished yet.
+"scheduled": only the owner until publishAt, then it is listed like a published video.
+"published": listed in the feed, search, tags and profiles.
+"unlisted": anyone with the link can watch it, but it is never listed.
+"private": only the owner.
+Videos created before this field existed count as published.
+publishAt: When the video went (or goes) public: set to now when a video gets published, chosen by the creator for a scheduled video, null otherwise.
 controls: Whether video controls (play, pause, etc.) are shown (optional, defaults to true).
 transformation: An object describing video transformation settings (height, width, quality).
 */
@@ -51,6 +79,16 @@ const videoSchema = new Schema<IVideo>(
     description: { type: String, required: true },
     videoUrl: { type: String, required: true },
     thumbnailUrl: { type: String, required: true },
+    thumbnailTime: { type: Number, default: null, min: 0 },
+    thumbnailFileId: { type: String, select: false },
+    fileId: { type: String, select: false },
+    tags: { type: [String], default: [] },
+    owner: { type: Schema.Types.ObjectId, ref: "User", index: true },
+    likeCount: { type: Number, default: 0, min: 0 },
+    isHidden: { type: Boolean, default: false },
+    hiddenBy: { type: String, enum: HIDDEN_BY, default: null },
+    status: { type: String, enum: VIDEO_STATUSES, default: "published" },
+    publishAt: { type: Date, default: null },
     controls: { type: Boolean, default: true },
     transformation: {
       height: { type: Number, default: VIDEO_DIMENSIONS.height },
@@ -58,20 +96,43 @@ const videoSchema = new Schema<IVideo>(
       quality: { type: Number, min: 1, max: 100 },
     },
   },
-  { timestamps: true }
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete ret.fileId;
+        delete ret.thumbnailFileId;
+        return ret;
+      },
+    },
+  }
 );
 
 /*
 videoSchema: Defines the structure and rules for video documents in MongoDB.
 title, description, videoUrl, thumbnailUrl: All required string fields.
+owner: ObjectId reference to the users collection, indexed so "My reels" listings don't scan the whole collection.
 controls: Boolean, defaults to true (so videos have controls unless specified otherwise).
 transformation: An embedded object with:
 height: Number, defaults to VIDEO_DIMENSIONS.height (1920).
 width: Number, defaults to VIDEO_DIMENSIONS.width (1080).
 quality: Number, optional, must be between 1 and 100 if provided.
 { timestamps: true }: Automatically adds and manages createdAt and updatedAt fields for each docu
+fileId, thumbnailFileId: Storage internals, never sent to the browser: left out of queries unless asked for with .select("+fileId +thumbnailFileId"), and dropped by toJSON from documents that loaded them.
 */
 
+videoSchema.index({ createdAt: -1, _id: -1 });
+videoSchema.index(
+  { title: "text", description: "text" },
+  { weights: { title: 3, description: 1 }, name: "video_text_search" }
+);
+videoSchema.index({ tags: 1, createdAt: -1, _id: -1 });
+videoSchema.index({ owner: 1, createdAt: -1, _id: -1 });
+// per-owner index for the pages of "My reels" and the profiles, in the same order as the feed
+// multikey index for tag browsing: each tag of a video gets its own entry, already in feed order
+// text index for GET /api/videos/search: a match in the title counts three times as much as one in the description
+// compound index backing the cursor pagination of the feed (see lib/pagination.ts): newest first, ties broken by _id
+
 const Video = models?.Video || model<IVideo>("Video", videoSchema);
 /*
 Purpose: Prevents model overwrite errors in development or serverless environments where files may be re-imported.
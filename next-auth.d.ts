@@ -6,7 +6,8 @@
 //     }
 // }
 
-import 'next-auth'
+import { DefaultSession } from 'next-auth'
+import { UserRole } from './models/User'
 
 declare module 'next-auth' {
     interface User{
@@ -14,14 +15,17 @@ declare module 'next-auth' {
         isVerified?: boolean;
         isAcceptingMessages? : boolean;
         username?: string
+        role?: UserRole;
     }
 
     interface Session {
     user: {
+      id: string;
       _id?: string;
       isVerified?: boolean;
       isAcceptingMessages?: boolean;
       username?: string;
+      role?: UserRole;
     } & DefaultSession['user'];
     }
 }
@@ -29,9 +33,12 @@ declare module 'next-auth' {
 
 declare module 'next-auth/jwt' {
   interface JWT {
+    id?: string;
+    authTime?: number;
     _id?: string;
     isVerified?: boolean;
     isAcceptingMessages?: boolean;
     username?: string;
+    role?: UserRole;
   }
 }
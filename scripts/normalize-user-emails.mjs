@@ -0,0 +1,33 @@
+import mongoose from "mongoose";
+
+// One-off migration: lowercases and trims User.email on rows saved before the schema did it (models/User.ts).
+// Run once per database: node --env-file=.env scripts/normalize-user-emails.mjs
+const MONGODB_URI = process.env.MONGODB_URI;
+if (!MONGODB_URI) {
+  console.error("Please define MONGODB_URI (e.g. node --env-file=.env scripts/normalize-user-emails.mjs)");
+  process.exit(1);
+}
+
+await mongoose.connect(MONGODB_URI);
+const users = mongoose.connection.collection("users");
+
+const normalized = { $toLower: { $trim: { input: "$email" } } };
+const cursor = users.find({ $expr: { $ne: ["$email", normalized] } }, { projection: { email: 1 } });
+
+let updated = 0;
+let conflicts = 0;
+for await (const user of cursor) {
+  const email = user.email.trim().toLowerCase();
+  // "Alice@x.com" and "alice@x.com" as two accounts: someone has to decide which one stays, don't guess
+  const other = await users.findOne({ email, _id: { $ne: user._id } }, { projection: { _id: 1 } });
+  if (other) {
+    conflicts++;
+    console.warn(`Skipped ${user._id}: "${user.email}" collides with user ${other._id}`);
+    continue;
+  }
+  await users.updateOne({ _id: user._id }, { $set: { email } });
+  updated++;
+}
+
+console.log(`Normalized ${updated} email(s), ${conflicts} conflict(s) left to resolve by hand`);
+await mongoose.disconnect();